@@ -0,0 +1,78 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { DataSource, EntityManager } from 'typeorm';
+import type { TransactionTimeoutError } from './errors';
+import type { TransactionSynchronizations } from './hooks';
+import type { TransactionSpan } from './tracing';
+import type { TransactionState, TransactionStatus } from './transaction-status';
+
+export interface TransactionContextData {
+  manager: EntityManager;
+  dataSource: DataSource;
+  synchronizations: TransactionSynchronizations;
+  // Epoch milliseconds by which the transaction must finish; joined calls share it
+  deadline?: number;
+  // Holds the timeout error once the deadline passed; shared with joined calls and savepoints
+  expiry?: { error?: TransactionTimeoutError };
+  readOnly: boolean;
+  // Transactions and savepoints open in this context, see TransactionEvent.depth
+  depth: number;
+  // Span of the transaction or savepoint when tracing is enabled
+  span?: TransactionSpan;
+  // Shared by the boundaries of one transaction or savepoint
+  transactionState: TransactionState;
+  // Status of the innermost boundary, joined calls get their own
+  status: TransactionStatus;
+}
+
+// Transaction context per DataSource to avoid conflicts
+const transactionContexts = new WeakMap<
+  DataSource,
+  AsyncLocalStorage<TransactionContextData>
+>();
+
+// Outer transaction opened by the testing harness, used when no other context is active
+const testTransactionManagers = new WeakMap<DataSource, EntityManager>();
+
+export function getOrCreateTransactionContext(
+  dataSource: DataSource,
+): AsyncLocalStorage<TransactionContextData> {
+  let context = transactionContexts.get(dataSource);
+  if (!context) {
+    context = new AsyncLocalStorage<TransactionContextData>();
+    transactionContexts.set(dataSource, context);
+  }
+  return context;
+}
+
+export function getCurrentTransactionManager(
+  dataSource?: DataSource,
+): EntityManager | null {
+  if (!dataSource) {
+    // If no dataSource provided, return null - user should provide dataSource
+    // for proper context isolation
+    return null;
+  }
+
+  const context = getOrCreateTransactionContext(dataSource);
+  const contextData = context.getStore();
+  return contextData
+    ? contextData.manager
+    : (testTransactionManagers.get(dataSource) ?? null);
+}
+
+export function getTestTransactionManager(
+  dataSource: DataSource,
+): EntityManager | undefined {
+  return testTransactionManagers.get(dataSource);
+}
+
+export function setTestTransactionManager(
+  dataSource: DataSource,
+  manager: EntityManager | undefined,
+): void {
+  if (manager) {
+    testTransactionManagers.set(dataSource, manager);
+  } else {
+    testTransactionManagers.delete(dataSource);
+  }
+}
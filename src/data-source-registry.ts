@@ -0,0 +1,59 @@
+import type { DataSource } from 'typeorm';
+
+export const DEFAULT_DATA_SOURCE_NAME = 'default';
+
+const dataSources = new Map<string, DataSource>();
+
+/**
+ * Registers a DataSource so `@Transactional` can resolve it without a `dataSource` property
+ */
+export function registerDataSource(name: string, dataSource: DataSource): void {
+  dataSources.set(name, dataSource);
+}
+
+/**
+ * Removes the registration, only if `name` still points to the given DataSource when one is passed
+ */
+export function unregisterDataSource(
+  name: string,
+  dataSource?: DataSource,
+): void {
+  if (!dataSource || dataSources.get(name) === dataSource) {
+    dataSources.delete(name);
+  }
+}
+
+export function getRegisteredDataSource(
+  name: string = DEFAULT_DATA_SOURCE_NAME,
+): DataSource | undefined {
+  return dataSources.get(name);
+}
+
+/**
+ * Like getRegisteredDataSource, but throws when nothing is registered under `name`
+ */
+export function resolveRegisteredDataSource(name: string): DataSource {
+  const dataSource = dataSources.get(name);
+
+  if (!dataSource) {
+    throw new Error(
+      `DataSource '${name}' is not registered. Register it with TransactionalModule or registerDataSource().`,
+    );
+  }
+
+  return dataSource;
+}
+
+/**
+ * Returns the name a DataSource was registered under, if any
+ */
+export function getRegisteredDataSourceName(
+  dataSource: DataSource,
+): string | undefined {
+  for (const [name, registered] of dataSources) {
+    if (registered === dataSource) {
+      return name;
+    }
+  }
+  return undefined;
+}
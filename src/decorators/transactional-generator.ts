@@ -0,0 +1,75 @@
+interface GeneratorRequest {
+  stop: boolean;
+  // Set when the consumer failed, so the boundary rolls back
+  failure?: { error: unknown };
+}
+
+function createDeferred<T>() {
+  let resolve: (value: T) => void = () => {};
+  let reject: (error: unknown) => void = () => {};
+  const promise = new Promise<T>((resolvePromise, rejectPromise) => {
+    resolve = resolvePromise;
+    reject = rejectPromise;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * Iterates the generator inside the boundary opened by `run`, pulling one item per request of the consumer.
+ * The boundary stays open until the generator is exhausted, the consumer stops early or fails.
+ */
+export async function* runGeneratorInBoundary<T>(
+  run: (body: () => Promise<void>) => Promise<unknown>,
+  createGenerator: () => AsyncGenerator<T>,
+): AsyncGenerator<T, void, undefined> {
+  let request = createDeferred<GeneratorRequest>();
+  let response = createDeferred<IteratorResult<T>>();
+
+  const completion = run(async () => {
+    // Created inside the boundary so the generator body runs in its context
+    const generator = createGenerator();
+    for (;;) {
+      const { stop, failure } = await request.promise;
+      request = createDeferred();
+      if (stop) {
+        await generator.return(undefined);
+        if (failure) {
+          throw failure.error;
+        }
+        return;
+      }
+      const result = await generator.next();
+      response.resolve(result);
+      if (result.done) {
+        return;
+      }
+    }
+  });
+  // Rejects a pending pull when the boundary fails, never settles otherwise
+  const failed = completion.then(() => new Promise<never>(() => {}));
+  failed.catch(() => {});
+
+  let exhausted = false;
+  let failure: GeneratorRequest['failure'];
+  try {
+    for (;;) {
+      response = createDeferred();
+      request.resolve({ stop: false });
+      const result = await Promise.race([response.promise, failed]);
+      if (result.done) {
+        exhausted = true;
+        return;
+      }
+      yield result.value;
+    }
+  } catch (error) {
+    failure = { error };
+    throw error;
+  } finally {
+    if (!exhausted) {
+      request.resolve({ stop: true, failure });
+    }
+    // Commit or rollback errors reach the consumer
+    await completion;
+  }
+}
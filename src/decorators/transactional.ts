@@ -1,143 +1,433 @@
-import { AsyncLocalStorage } from 'node:async_hooks';
 import type { DataSource, EntityManager, Repository } from 'typeorm';
+import { getCurrentTransactionManager } from '../context';
+import {
+  getRegisteredDataSource,
+  resolveRegisteredDataSource,
+} from '../data-source-registry';
+import { executeMultiTransactional } from '../multi-transaction';
+import {
+  executeTransactional,
+  type TransactionalOptions,
+} from '../run-in-transaction';
+import { getCustomRepository } from '../transactional-repository';
+import { runGeneratorInBoundary } from './transactional-generator';
 
-type IsolationLevel =
-  | 'READ UNCOMMITTED'
-  | 'READ COMMITTED'
-  | 'REPEATABLE READ'
-  | 'SERIALIZABLE';
+// Options of class-level @Transactional, keyed by class
+const classOptions = new WeakMap<object, TransactionalOptions>();
+// Methods wrapped by method-level @Transactional or opted out with @NonTransactional
+const decoratedMethods = new WeakSet<object>();
+// Method-level options of wrapped async generators, checked again against class-level options
+const generatorMethodOptions = new WeakMap<object, TransactionalOptions>();
 
-export interface TransactionalOptions {
-  isolation?: IsolationLevel;
-  propagation?: 'REQUIRED' | 'REQUIRES_NEW';
+// reflect-metadata API, present when the application loads it
+interface MetadataReflect {
+  getOwnMetadataKeys?(target: object): unknown[];
+  getOwnMetadata?(key: unknown, target: object): unknown;
+  defineMetadata?(key: unknown, value: unknown, target: object): void;
+  getMetadata?(key: unknown, target: object, propertyKey: string): unknown;
 }
 
-interface TransactionContextData {
-  manager: EntityManager;
-  dataSource: DataSource;
+const metadataReflect = Reflect as typeof Reflect & MetadataReflect;
+
+// 'unknown' when neither the function nor emitted metadata tell whether it returns a Promise
+type MethodKind = 'async' | 'asyncGenerator' | 'other' | 'unknown';
+
+/**
+ * Classifies a method from its native function kind or, for code compiled below ES2017,
+ * from the return type recorded by emitDecoratorMetadata. The source text is never inspected.
+ */
+function getMethodKind(
+  method: unknown,
+  target?: object,
+  propertyName?: string,
+): MethodKind {
+  if (typeof method !== 'function') {
+    return 'other';
+  }
+  switch (method.constructor.name) {
+    case 'AsyncFunction':
+      return 'async';
+    case 'AsyncGeneratorFunction':
+      return 'asyncGenerator';
+    case 'GeneratorFunction':
+      return 'other';
+  }
+  // design:type is recorded for every decorated method, design:returntype only when it is known
+  if (
+    target &&
+    propertyName &&
+    metadataReflect.getMetadata?.('design:type', target, propertyName) !==
+      undefined
+  ) {
+    const returnType = metadataReflect.getMetadata?.(
+      'design:returntype',
+      target,
+      propertyName,
+    );
+    return returnType === Promise ? 'async' : 'other';
+  }
+  return 'unknown';
 }
 
-// Transaction context per DataSource to avoid conflicts
-const transactionContexts = new WeakMap<
-  DataSource,
-  AsyncLocalStorage<TransactionContextData>
->();
-
-function getOrCreateTransactionContext(
-  dataSource: DataSource,
-): AsyncLocalStorage<TransactionContextData> {
-  let context = transactionContexts.get(dataSource);
-  if (!context) {
-    context = new AsyncLocalStorage<TransactionContextData>();
-    transactionContexts.set(dataSource, context);
-  }
-  return context;
+function assertTransactionalMethod(
+  kind: MethodKind,
+  name: string,
+): asserts kind is 'async' | 'asyncGenerator' {
+  if (kind === 'other') {
+    throw new Error(
+      `@Transactional cannot wrap ${name} because it is neither async nor declared to return a Promise. Declare it 'async' (or 'async *' to stream results, which needs target ES2018 or later).`,
+    );
+  }
+  if (kind === 'unknown') {
+    throw new Error(
+      `@Transactional cannot tell whether ${name} returns a Promise: it is not a native async function and no emitDecoratorMetadata return type was recorded for it. Declare it 'async' and compile with target ES2017 or later (ES2018 for 'async *'), or enable emitDecoratorMetadata with experimentalDecorators.`,
+    );
+  }
 }
 
-function getSupportedIsolationLevel(
-  dataSource: DataSource,
-  requestedLevel?: IsolationLevel,
-): IsolationLevel | undefined {
-  if (!requestedLevel) {
-    // Use database default when no level is requested
-    return undefined;
+// A retry would run the generator again after its first items already reached the caller
+function assertNoGeneratorRetry(
+  kind: MethodKind,
+  options: TransactionalOptions,
+  name: string,
+): void {
+  if (kind === 'asyncGenerator' && options.retry) {
+    throw new Error(
+      `@Transactional cannot retry ${name} because it is an 'async *' method and the items it already yielded cannot be replayed. Remove 'retry' and retry the code that consumes the stream instead.`,
+    );
   }
+}
 
-  const dbType = dataSource.options.type;
+// Keeps the name, length, other own properties and reflect-metadata entries other decorators set on the method
+function copyMethodMetadata(source: object, wrapper: object): void {
+  for (const key of Reflect.ownKeys(source)) {
+    const descriptor = Object.getOwnPropertyDescriptor(source, key);
+    if (key !== 'prototype' && descriptor?.configurable !== false) {
+      Object.defineProperty(wrapper, key, descriptor as PropertyDescriptor);
+    }
+  }
+  for (const key of metadataReflect.getOwnMetadataKeys?.(source) ?? []) {
+    metadataReflect.defineMetadata?.(
+      key,
+      metadataReflect.getOwnMetadata?.(key, source),
+      wrapper,
+    );
+  }
+}
+
+// biome-ignore lint/suspicious/noExplicitAny: Function arguments are generic
+type AsyncMethod = (...args: any[]) => Promise<unknown> | AsyncGenerator;
+
+// Standard (TC39) decorators receive a context object where legacy ones receive a property name or nothing
+function isDecoratorContext(value: unknown): value is DecoratorContext {
+  return typeof value === 'object' && value !== null && 'kind' in value;
+}
+
+function createTransactionalMethod(
+  // Returns the prototype declaring the method, for class options and error messages
+  // biome-ignore lint/suspicious/noExplicitAny: Decorator target type is inherently any
+  resolveTarget: (instance: unknown) => any,
+  propertyName: string,
+  originalMethod: AsyncMethod,
+  kind: 'async' | 'asyncGenerator',
+  methodOptions: TransactionalOptions,
+) {
+  const run = async function <T>(
+    this: unknown,
+    body: () => Promise<T>,
+  ): Promise<T> {
+    const target = resolveTarget(this);
+    // Method-level options override the class-level ones
+    const options = {
+      ...classOptions.get(target.constructor),
+      ...methodOptions,
+    };
 
-  if (dbType === 'sqlite') {
-    // SQLite only supports SERIALIZABLE and READ UNCOMMITTED
-    if (
-      requestedLevel === 'READ UNCOMMITTED' ||
-      requestedLevel === 'SERIALIZABLE'
-    ) {
-      return requestedLevel;
+    if (options.dataSources) {
+      return await executeMultiTransactional(
+        options.dataSources.map(resolveRegisteredDataSource),
+        body,
+        options,
+        { className: target.constructor.name, methodName: propertyName },
+      );
+    }
+
+    // Prefer the named DataSource, then the service's own, then the one registered through TransactionalModule / registerDataSource
+    const dataSource: DataSource | undefined = options.connectionName
+      ? resolveRegisteredDataSource(options.connectionName)
+      : // biome-ignore lint/suspicious/noExplicitAny: Service instance type is unknown at decorator level
+        ((this as any).dataSource ?? getRegisteredDataSource());
+
+    if (!dataSource) {
+      throw new Error(
+        `DataSource not found in ${target.constructor.name}. Make sure your service has a 'dataSource' property or register one with TransactionalModule or registerDataSource().`,
+      );
+    }
+
+    return await executeTransactional(dataSource, body, options, {
+      className: target.constructor.name,
+      methodName: propertyName,
+    });
+  };
+
+  const wrapper =
+    kind === 'asyncGenerator'
+      ? // The transaction stays open while the caller iterates
+        // biome-ignore lint/suspicious/noExplicitAny: Function arguments are generic
+        function (this: unknown, ...args: any[]) {
+          return runGeneratorInBoundary(
+            (body) => run.call(this, body),
+            () => originalMethod.apply(this, args) as AsyncGenerator,
+          );
+        }
+      : // biome-ignore lint/suspicious/noExplicitAny: Function arguments are generic
+        async function (this: unknown, ...args: any[]) {
+          return await run.call(
+            this,
+            () => originalMethod.apply(this, args) as Promise<unknown>,
+          );
+        };
+  copyMethodMetadata(originalMethod, wrapper);
+  if (kind === 'asyncGenerator') {
+    generatorMethodOptions.set(wrapper, methodOptions);
+  }
+  return wrapper;
+}
+
+// Standard method decorators do not receive the class, so it is looked up from the first call's instance
+function createStandardTransactionalMethod(
+  originalMethod: AsyncMethod,
+  context: ClassMethodDecoratorContext,
+  options: TransactionalOptions,
+): AsyncMethod {
+  const propertyName = String(context.name);
+  // Standard decorators never receive emitDecoratorMetadata types, so only native async methods qualify
+  const kind = getMethodKind(originalMethod);
+  assertTransactionalMethod(kind, `method '${propertyName}'`);
+  assertNoGeneratorRetry(kind, options, `method '${propertyName}'`);
+  let target: object | undefined;
+  const method = createTransactionalMethod(
+    (instance) => {
+      for (
+        let prototype = instance;
+        !target && prototype;
+        prototype = Object.getPrototypeOf(prototype)
+      ) {
+        if (
+          Object.getOwnPropertyDescriptor(prototype, propertyName)?.value ===
+          method
+        ) {
+          target = prototype;
+        }
+      }
+      // Private methods are not found on the prototype chain
+      return target ?? Object.getPrototypeOf(instance);
+    },
+    propertyName,
+    originalMethod,
+    kind,
+    options,
+  );
+  return method;
+}
+
+/**
+ * Wraps every method declared by the class itself that getMethodKind finds async, and leaves methods
+ * it finds synchronous. Inherited methods and methods already marked by a method decorator are skipped.
+ * Unlike method-level @Transactional, a plain function without recorded metadata counts as synchronous,
+ * unless the class itself is a constructor function and so clearly compiled below ES2017.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Class constructors take arbitrary arguments
+function applyToClass(target: new (...args: any[]) => unknown): void {
+  const prototype = target.prototype;
+  const options = classOptions.get(target) ?? {};
+  // The prototype of a native class is read-only, a constructor function's is writable
+  const nativeClass =
+    Object.getOwnPropertyDescriptor(target, 'prototype')?.writable === false;
+  const methods: { propertyName: string; kind: 'async' | 'asyncGenerator' }[] =
+    [];
+  const unknown: string[] = [];
+  for (const propertyName of Object.getOwnPropertyNames(prototype)) {
+    const descriptor = Object.getOwnPropertyDescriptor(prototype, propertyName);
+    if (propertyName === 'constructor' || !descriptor) {
+      continue;
+    }
+    if (decoratedMethods.has(descriptor.value)) {
+      const methodOptions = generatorMethodOptions.get(descriptor.value);
+      if (methodOptions) {
+        assertNoGeneratorRetry(
+          'asyncGenerator',
+          { ...options, ...methodOptions },
+          `${target.name}.${propertyName}`,
+        );
+      }
+      continue;
+    }
+    const kind = getMethodKind(descriptor.value, prototype, propertyName);
+    assertNoGeneratorRetry(kind, options, `${target.name}.${propertyName}`);
+    if (kind === 'unknown' && !nativeClass) {
+      unknown.push(propertyName);
+    } else if (kind === 'async' || kind === 'asyncGenerator') {
+      methods.push({ propertyName, kind });
     }
-    // Fall back to SERIALIZABLE for unsupported levels
-    return 'SERIALIZABLE';
   }
 
-  // For other databases, return the requested level as-is
-  return requestedLevel;
+  // Below ES2017 every async method is a plain function, so skipping them would leave all of them outside the transaction
+  if (unknown.length > 0) {
+    throw new Error(
+      `@Transactional on ${target.name} cannot tell whether these methods return a Promise: ${unknown.join(', ')}. The class is compiled below ES2017, where async methods are plain functions. Compile with target ES2017 or later, or mark each one with @Transactional or @NonTransactional.`,
+    );
+  }
+
+  for (const { propertyName, kind } of methods) {
+    const method = prototype[propertyName];
+    Object.defineProperty(prototype, propertyName, {
+      ...Object.getOwnPropertyDescriptor(prototype, propertyName),
+      value: createTransactionalMethod(
+        () => prototype,
+        propertyName,
+        method,
+        kind,
+        {},
+      ),
+    });
+  }
 }
 
+/**
+ * On a method, runs it in a transaction. On a class, runs every async method the class
+ * declares in a transaction with these options as defaults for method-level @Transactional.
+ * Works with both standard decorators and `experimentalDecorators`.
+ */
 export function Transactional(options: TransactionalOptions = {}) {
-  return (
+  // biome-ignore lint/suspicious/noExplicitAny: Decorator target type is inherently any
+  function decorate(target: any): void;
+  function decorate(
     // biome-ignore lint/suspicious/noExplicitAny: Decorator target type is inherently any
     target: any,
     propertyName: string,
     descriptor: PropertyDescriptor,
-  ) => {
-    const originalMethod = descriptor.value;
-
-    // biome-ignore lint/suspicious/noExplicitAny: Function arguments are generic
-    descriptor.value = async function (...args: any[]) {
-      // biome-ignore lint/suspicious/noExplicitAny: Service instance type is unknown at decorator level
-      const dataSource: DataSource = (this as any).dataSource;
-
-      if (!dataSource) {
-        throw new Error(
-          `DataSource not found in ${target.constructor.name}. Make sure your service has a 'dataSource' property.`,
+  ): PropertyDescriptor;
+  function decorate<T extends AsyncMethod>(
+    method: T,
+    context: ClassMethodDecoratorContext,
+  ): T;
+  function decorate(
+    // biome-ignore lint/suspicious/noExplicitAny: Class constructors take arbitrary arguments
+    target: new (...args: any[]) => unknown,
+    context: ClassDecoratorContext,
+  ): void;
+  function decorate(
+    // biome-ignore lint/suspicious/noExplicitAny: Decorator target type is inherently any
+    target: any,
+    propertyNameOrContext?: string | DecoratorContext,
+    descriptor?: PropertyDescriptor,
+  ): PropertyDescriptor | AsyncMethod | undefined {
+    if (isDecoratorContext(propertyNameOrContext)) {
+      if (propertyNameOrContext.kind === 'method') {
+        const method = createStandardTransactionalMethod(
+          target,
+          propertyNameOrContext,
+          options,
         );
+        decoratedMethods.add(method);
+        return method;
       }
-
-      // Check for existing transaction in the context for this DataSource
-      const context = getOrCreateTransactionContext(dataSource);
-      const existingContext = context.getStore();
-
-      if (existingContext && options.propagation !== 'REQUIRES_NEW') {
-        // If there is an existing transaction and propagation is not REQUIRES_NEW, join the existing transaction
-        return await originalMethod.apply(this, args);
+      if (propertyNameOrContext.kind !== 'class') {
+        throw new Error(
+          `@Transactional cannot decorate the ${propertyNameOrContext.kind} '${String(propertyNameOrContext.name)}', only classes and methods.`,
+        );
       }
+    }
 
-      const isolationLevel = getSupportedIsolationLevel(
-        dataSource,
-        options.isolation,
-      );
-
-      const executeTransaction = async (manager: EntityManager) => {
-        // Set the transaction context using AsyncLocalStorage per DataSource
-        const contextData: TransactionContextData = { manager, dataSource };
-        return await context.run(contextData, async () => {
-          return await originalMethod.apply(this, args);
-        });
-      };
-
-      return isolationLevel
-        ? await dataSource.transaction(isolationLevel, executeTransaction)
-        : await dataSource.transaction(executeTransaction);
-    };
+    if (typeof propertyNameOrContext !== 'string' || !descriptor) {
+      // Method decorators run before class decorators, so decorated methods are already marked
+      classOptions.set(target, options);
+      applyToClass(target);
+      return undefined;
+    }
 
+    const kind = getMethodKind(descriptor.value, target, propertyNameOrContext);
+    assertTransactionalMethod(
+      kind,
+      `${target.constructor.name}.${propertyNameOrContext}`,
+    );
+    assertNoGeneratorRetry(
+      kind,
+      options,
+      `${target.constructor.name}.${propertyNameOrContext}`,
+    );
+    descriptor.value = createTransactionalMethod(
+      () => target,
+      propertyNameOrContext,
+      descriptor.value,
+      kind,
+      options,
+    );
+    decoratedMethods.add(descriptor.value);
     return descriptor;
-  };
+  }
+
+  return decorate;
 }
 
-export function getCurrentTransactionManager(
-  dataSource?: DataSource,
-): EntityManager | null {
-  if (!dataSource) {
-    // If no dataSource provided, return null - user should provide dataSource
-    // for proper context isolation
-    return null;
+/**
+ * Excludes a method from class-level @Transactional; it runs in the caller's transaction, if any
+ */
+export function NonTransactional() {
+  function exclude(
+    // biome-ignore lint/suspicious/noExplicitAny: Decorator target type is inherently any
+    target: any,
+    propertyName: string,
+    descriptor: PropertyDescriptor,
+  ): PropertyDescriptor;
+  // Any method may opt out, including synchronous helpers of a class-level @Transactional
+  // biome-ignore lint/suspicious/noExplicitAny: Methods take arbitrary arguments
+  function exclude<T extends (...args: any[]) => unknown>(
+    method: T,
+    context: ClassMethodDecoratorContext,
+  ): void;
+  function exclude(
+    // biome-ignore lint/suspicious/noExplicitAny: Decorator target type is inherently any
+    target: any,
+    _propertyNameOrContext: string | ClassMethodDecoratorContext,
+    descriptor?: PropertyDescriptor,
+  ): PropertyDescriptor | undefined {
+    if (!descriptor) {
+      // Standard decorator: the method itself is the target
+      decoratedMethods.add(target);
+      return undefined;
+    }
+    decoratedMethods.add(descriptor.value);
+    return descriptor;
   }
 
-  const context = getOrCreateTransactionContext(dataSource);
-  const contextData = context.getStore();
-  return contextData ? contextData.manager : null;
+  return exclude;
 }
 
 export abstract class BaseTransactionalService {
   protected constructor(protected readonly dataSource: DataSource) {}
 
+  // `dataSourceName` selects a registered DataSource instead of the service's own
   protected getRepository<T extends object>(
     entity: new () => T,
+    dataSourceName?: string,
   ): Repository<T> {
-    const manager = this.getManager();
+    const manager = this.getManager(dataSourceName);
     return manager.getRepository(entity);
   }
 
-  protected getManager(): EntityManager {
-    const manager = getCurrentTransactionManager(this.dataSource);
-    return manager ? manager : this.dataSource.manager;
+  // Custom repository (Repository.extend() or a subclass) bound to the active transaction of its DataSource
+  // biome-ignore lint/suspicious/noExplicitAny: Repository is invariant in its entity type
+  protected getCustomRepository<R extends Repository<any>>(repository: R): R {
+    return getCustomRepository(repository);
+  }
+
+  protected getManager(dataSourceName?: string): EntityManager {
+    const dataSource = dataSourceName
+      ? resolveRegisteredDataSource(dataSourceName)
+      : this.dataSource;
+    const manager = getCurrentTransactionManager(dataSource);
+    return manager ? manager : dataSource.manager;
   }
 }
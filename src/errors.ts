@@ -0,0 +1,82 @@
+/**
+ * Base class for all errors thrown by the transactional decorator
+ */
+export class TransactionalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when an operation does not allow the current transaction state,
+ * e.g. MANDATORY without an active transaction or NEVER inside one
+ */
+export class IllegalTransactionStateError extends TransactionalError {
+  constructor(
+    message: string,
+    readonly propagation?: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when a transactional method does not finish before its timeout.
+ * The transaction is always rolled back, regardless of rollback rules.
+ */
+export class TransactionTimeoutError extends TransactionalError {
+  constructor(
+    message: string,
+    readonly timeout: number,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when an insert, update or delete is issued inside a read-only transaction
+ */
+export class ReadOnlyTransactionError extends TransactionalError {}
+
+/**
+ * Thrown when a multi-DataSource transaction fails after some DataSources already committed.
+ * Transactions left prepared by two-phase commit must be resolved with COMMIT PREPARED / ROLLBACK PREPARED
+ * on Postgres, or XA COMMIT / XA ROLLBACK on MySQL and MariaDB.
+ */
+export class PartialCommitError extends TransactionalError {
+  constructor(
+    message: string,
+    readonly committed: string[],
+    readonly notCommitted: string[],
+    readonly cause: unknown,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown by the boundary that owns a transaction when a participant marked it rollback-only,
+ * so the caller does not mistake the rolled back work for a commit
+ */
+export class UnexpectedRollbackError extends TransactionalError {
+  constructor(
+    message: string,
+    readonly transactionId: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Thrown when the driver cannot run the requested isolation level under the fallback policy
+ */
+export class UnsupportedIsolationLevelError extends TransactionalError {
+  constructor(
+    message: string,
+    readonly isolation: string,
+    readonly driver: string,
+  ) {
+    super(message);
+  }
+}
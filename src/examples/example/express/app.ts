@@ -1,5 +1,6 @@
 import express from 'express';
 import type { DataSource } from 'typeorm';
+import { transactionalMiddleware } from '@/middleware';
 import { OrganizationService } from '../../service/organization.service';
 import { SignupService } from '../../service/signup.service';
 import { UserService } from '../../service/user.service';
@@ -37,6 +38,12 @@ export function createApp(
     '/signup-without-transaction',
     signupController.signupWithoutTransaction.bind(signupController),
   );
+  // Whole request in one transaction, service transactions join it
+  app.post(
+    '/signup-with-middleware',
+    transactionalMiddleware(dataSource),
+    signupController.signupWithoutTransaction.bind(signupController),
+  );
 
   return app;
 }
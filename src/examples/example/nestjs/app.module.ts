@@ -1,4 +1,5 @@
 import type { DataSource } from 'typeorm';
+import { TransactionalModule } from '@/nestjs';
 import { NestJSSignupController } from './controller/signup.controller';
 import { NestJSOrganizationService } from './service/organization.service';
 import { NestJSSignupService } from './service/signup.service';
@@ -6,12 +7,9 @@ import { NestJSUserService } from './service/user.service';
 
 export function createAppModuleConfig(dataSource: DataSource) {
   return {
+    imports: [TransactionalModule.forRoot({ dataSource })],
     controllers: [NestJSSignupController],
     providers: [
-      {
-        provide: 'DATA_SOURCE',
-        useValue: dataSource,
-      },
       NestJSOrganizationService,
       NestJSUserService,
       NestJSSignupService,
@@ -5,7 +5,11 @@ import {
   HttpStatus,
   Post,
 } from '@nestjs/common';
+import { TransactionalRoute, TransactionManagerService } from '@/nestjs';
+import { User } from '../../../entity/user.model';
+import { NestJSOrganizationService } from '../service/organization.service';
 import { NestJSSignupService } from '../service/signup.service';
+import { NestJSUserService } from '../service/user.service';
 
 export interface SignupRequest {
   organizationId: string;
@@ -30,7 +34,12 @@ export interface SignupResponse {
 
 @Controller('signup')
 export class NestJSSignupController {
-  constructor(private readonly signupService: NestJSSignupService) {}
+  constructor(
+    private readonly signupService: NestJSSignupService,
+    private readonly organizationService: NestJSOrganizationService,
+    private readonly userService: NestJSUserService,
+    private readonly transactionManager: TransactionManagerService,
+  ) {}
 
   @Post()
   async signup(@Body() body: SignupRequest): Promise<SignupResponse> {
@@ -107,4 +116,41 @@ export class NestJSSignupController {
       );
     }
   }
+
+  /**
+   * Composes the services directly in the controller
+   * @TransactionalRoute makes the whole handler one atomic unit that the services join
+   */
+  @Post('composed')
+  @TransactionalRoute()
+  async signupComposed(@Body() body: SignupRequest): Promise<SignupResponse> {
+    const { organizationId, userId, userName } = body;
+
+    const organization = await this.organizationService.createOrganization({
+      organizationId,
+    });
+
+    const user = await this.userService.createUser({
+      userId,
+      name: userName,
+    });
+
+    user.organization = organization;
+    await this.transactionManager.getRepository(User).save(user);
+
+    return {
+      success: true,
+      data: {
+        organization: {
+          organizationId: organization.organizationId,
+          createdAt: organization.createdAt,
+        },
+        user: {
+          userId: user.userId,
+          name: user.name,
+          createdAt: user.createdAt,
+        },
+      },
+    };
+  }
 }
@@ -1,9 +1,6 @@
-import { Inject, Injectable } from '@nestjs/common';
-import type { DataSource } from 'typeorm';
-import {
-  BaseTransactionalService,
-  Transactional,
-} from '@/decorators/transactional';
+import { Injectable } from '@nestjs/common';
+import { Transactional } from '@/decorators/transactional';
+import { TransactionManagerService } from '@/nestjs';
 import { Organization } from '../../../entity/organization.model';
 
 export interface CreateOrganizationDto {
@@ -12,18 +9,16 @@ export interface CreateOrganizationDto {
 }
 
 @Injectable()
-export class NestJSOrganizationService extends BaseTransactionalService {
+export class NestJSOrganizationService {
   constructor(
-    @Inject('DATA_SOURCE') protected readonly dataSource: DataSource,
-  ) {
-    super(dataSource);
-  }
+    private readonly transactionManager: TransactionManagerService,
+  ) {}
 
   @Transactional()
   async createOrganization(
     orgData: CreateOrganizationDto,
   ): Promise<Organization> {
-    const repository = this.getRepository(Organization);
+    const repository = this.transactionManager.getRepository(Organization);
 
     const organization = repository.create({
       organizationId: orgData.organizationId,
@@ -1,9 +1,6 @@
-import { Inject, Injectable } from '@nestjs/common';
-import type { DataSource } from 'typeorm';
-import {
-  BaseTransactionalService,
-  Transactional,
-} from '@/decorators/transactional';
+import { Injectable } from '@nestjs/common';
+import { Transactional } from '@/decorators/transactional';
+import { TransactionManagerService } from '@/nestjs';
 import type { Organization } from '../../../entity/organization.model';
 import { User } from '../../../entity/user.model';
 import type { SignupDto } from '../../../types/dto';
@@ -11,14 +8,12 @@ import { NestJSOrganizationService } from './organization.service';
 import { NestJSUserService } from './user.service';
 
 @Injectable()
-export class NestJSSignupService extends BaseTransactionalService {
+export class NestJSSignupService {
   constructor(
-    @Inject('DATA_SOURCE') protected readonly dataSource: DataSource,
+    private readonly transactionManager: TransactionManagerService,
     private readonly organizationService: NestJSOrganizationService,
     private readonly userService: NestJSUserService,
-  ) {
-    super(dataSource);
-  }
+  ) {}
 
   @Transactional()
   async signup(
@@ -53,7 +48,7 @@ export class NestJSSignupService extends BaseTransactionalService {
     });
 
     // 3. Link user to organization
-    const userRepo = this.getRepository(User);
+    const userRepo = this.transactionManager.getRepository(User);
     user.organization = organization;
     await userRepo.save(user);
 
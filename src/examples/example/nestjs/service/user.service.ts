@@ -1,9 +1,6 @@
-import { Inject, Injectable } from '@nestjs/common';
-import type { DataSource } from 'typeorm';
-import {
-  BaseTransactionalService,
-  Transactional,
-} from '@/decorators/transactional';
+import { Injectable } from '@nestjs/common';
+import { Transactional } from '@/decorators/transactional';
+import { TransactionManagerService } from '@/nestjs';
 import { Organization } from '../../../entity/organization.model';
 import { User } from '../../../entity/user.model';
 
@@ -15,16 +12,14 @@ export interface CreateUserDto {
 }
 
 @Injectable()
-export class NestJSUserService extends BaseTransactionalService {
+export class NestJSUserService {
   constructor(
-    @Inject('DATA_SOURCE') protected readonly dataSource: DataSource,
-  ) {
-    super(dataSource);
-  }
+    private readonly transactionManager: TransactionManagerService,
+  ) {}
 
   @Transactional()
   async createUser(userData: CreateUserDto): Promise<User> {
-    const userRepository = this.getRepository(User);
+    const userRepository = this.transactionManager.getRepository(User);
 
     const user = userRepository.create({
       userId: userData.userId,
@@ -36,7 +31,8 @@ export class NestJSUserService extends BaseTransactionalService {
 
     // If organizationId is provided, link to organization
     if (userData.organizationId) {
-      const orgRepository = this.getRepository(Organization);
+      const orgRepository =
+        this.transactionManager.getRepository(Organization);
       const organization = await orgRepository.findOneBy({
         organizationId: userData.organizationId,
       });
@@ -3,6 +3,7 @@ import {
   BaseTransactionalService,
   Transactional,
 } from '@/decorators/transactional';
+import { publishToOutbox } from '@/outbox';
 import { Organization } from '../entity/organization.model';
 import type { CreateOrganizationDto } from '../types/dto';
 
@@ -21,6 +22,14 @@ export class OrganizationService extends BaseTransactionalService {
     organization.organizationId = orgData.organizationId;
     organization.isEnterprise = orgData.isEnterprise;
 
-    return await orgRepo.save(organization);
+    const saved = await orgRepo.save(organization);
+
+    // Published by OutboxRelay only if the surrounding transaction commits
+    await publishToOutbox(this.dataSource, {
+      type: 'organization.created',
+      payload: { organizationId: saved.organizationId },
+    });
+
+    return saved;
   }
 }
@@ -85,4 +85,28 @@ export class SignupService extends BaseTransactionalService {
 
     return { organization, user };
   }
+
+  /**
+   * Method that creates the user inside a NESTED savepoint
+   * If user creation fails, only the user is rolled back and the organization is still committed
+   */
+  @Transactional()
+  async signupWithNestedTransaction(
+    signupData: SignupDto,
+  ): Promise<{ organization: Organization; user: User | null }> {
+    const organization = await this.organizationService.createOrganization({
+      organizationId: signupData.organizationId,
+      isEnterprise: false,
+    });
+
+    try {
+      const user = await this.userService.createUserWithNested({
+        userId: signupData.userId,
+        name: signupData.userName,
+      });
+      return { organization, user };
+    } catch {
+      return { organization, user: null };
+    }
+  }
 }
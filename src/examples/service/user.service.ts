@@ -27,4 +27,9 @@ export class UserService extends BaseTransactionalService {
   async createUserWithRequiresNew(userData: CreateUserDto): Promise<User> {
     return await this.createUser(userData);
   }
+
+  @Transactional({ propagation: 'NESTED' })
+  async createUserWithNested(userData: CreateUserDto): Promise<User> {
+    return await this.createUser(userData);
+  }
 }
@@ -0,0 +1,157 @@
+import 'reflect-metadata';
+import type { DataSource } from 'typeorm';
+import { getCurrentTransactionManager } from '@/context';
+import {
+  BaseTransactionalService,
+  NonTransactional,
+  Transactional,
+} from '@/decorators/transactional';
+import { getCurrentTransactionStatus } from '@/transaction-status';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+// Any decorator makes emitDecoratorMetadata record the method's return type
+function Audited() {
+  return (
+    _target: object,
+    _propertyName: string,
+    _descriptor: PropertyDescriptor,
+  ) => {};
+}
+
+@Transactional({ isolation: 'SERIALIZABLE' })
+class ClassTransactionalTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  async saveUsers(userIds: string[], fail = false): Promise<void> {
+    for (const userId of userIds) {
+      await this.getRepository(User).save(this.createUser(userId));
+    }
+    if (fail) {
+      throw new Error('Save failed');
+    }
+  }
+
+  async getIsolation(): Promise<string | undefined> {
+    return getCurrentTransactionStatus(this.dataSource)?.isolation;
+  }
+
+  @Transactional({ readOnly: true })
+  async getReadOnlyStatus(): Promise<{
+    readOnly?: boolean;
+    isolation?: string;
+  }> {
+    const status = getCurrentTransactionStatus(this.dataSource);
+    return { readOnly: status?.readOnly, isolation: status?.isolation };
+  }
+
+  @NonTransactional()
+  async isInTransaction(): Promise<boolean> {
+    return getCurrentTransactionManager(this.dataSource) !== null;
+  }
+
+  // Not declared async, but its recorded Promise return type gets it wrapped
+  @Audited()
+  isInTransactionWithoutAsync(): Promise<boolean> {
+    return Promise.resolve(
+      getCurrentTransactionManager(this.dataSource) !== null,
+    );
+  }
+
+  // Plain functions without recorded metadata are taken as sync and left as they are
+  countLater(items: number[]): number {
+    items.forEach(async (item) => {
+      await item;
+    });
+    return items.length;
+  }
+
+  // Methods with a recorded non-Promise return type are left as they are
+  @Audited()
+  createUser(userId: string): User {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    return user;
+  }
+}
+
+describe('Class-level @Transactional', () => {
+  let service: ClassTransactionalTestService;
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new ClassTransactionalTestService(testDataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+  });
+
+  test('should run undecorated async methods in a transaction', async () => {
+    // When
+    await expect(
+      service.saveUsers(['first', 'second'], true),
+    ).rejects.toThrow('Save failed');
+
+    // Then
+    expect(await testDataSource.getRepository(User).count()).toBe(0);
+  });
+
+  test('should apply the class options', async () => {
+    // When / Then
+    expect(await service.getIsolation()).toBe('SERIALIZABLE');
+  });
+
+  test('should let method-level options override the class options', async () => {
+    // When
+    const status = await service.getReadOnlyStatus();
+
+    // Then
+    expect(status).toEqual({ readOnly: true, isolation: 'SERIALIZABLE' });
+  });
+
+  test('should not wrap methods marked with @NonTransactional', async () => {
+    // When / Then
+    expect(await service.isInTransaction()).toBe(false);
+  });
+
+  test('should wrap methods with a recorded Promise return type', async () => {
+    // When / Then
+    expect(await service.isInTransactionWithoutAsync()).toBe(true);
+  });
+
+  test('should leave sync methods unchanged', () => {
+    // When / Then
+    expect(service.createUser('sync')).toBeInstanceOf(User);
+    expect(service.countLater([1, 2])).toBe(2);
+  });
+
+  test('should leave plain functions without recorded metadata alone', () => {
+    // Given
+    class UndecoratedService {
+      count(items: number[]): number {
+        return items.length;
+      }
+
+      load(): Promise<void> {
+        return Promise.resolve();
+      }
+    }
+    const { count, load } = UndecoratedService.prototype;
+
+    // When
+    Transactional()(UndecoratedService);
+
+    // Then
+    expect(UndecoratedService.prototype.count).toBe(count);
+    expect(UndecoratedService.prototype.load).toBe(load);
+  });
+
+});
@@ -1,13 +1,18 @@
 import { DataSource } from 'typeorm';
 import { SnakeNamingStrategy } from 'typeorm-naming-strategies';
+import { OutboxMessage } from '@/outbox';
 import { Organization } from '../../entity/organization.model';
 import { User } from '../../entity/user.model';
 
-export const testDataSource = new DataSource({
-  type: 'sqlite',
-  database: ':memory:',
-  entities: [User, Organization],
-  synchronize: true,
-  logging: false,
-  namingStrategy: new SnakeNamingStrategy(),
-});
+export function createTestDataSource(): DataSource {
+  return new DataSource({
+    type: 'sqlite',
+    database: ':memory:',
+    entities: [User, Organization, OutboxMessage],
+    synchronize: true,
+    logging: false,
+    namingStrategy: new SnakeNamingStrategy(),
+  });
+}
+
+export const testDataSource = createTestDataSource();
@@ -1,3 +1,4 @@
+import { OutboxMessage } from '@/outbox';
 import { Organization } from '../../entity/organization.model';
 import { User } from '../../entity/user.model';
 import { OrganizationService } from '../../service/organization.service';
@@ -18,6 +19,7 @@ export function getRepositories() {
   return {
     organizationRepository: testDataSource.getRepository(Organization),
     userRepository: testDataSource.getRepository(User),
+    outboxRepository: testDataSource.getRepository(OutboxMessage),
   };
 }
 
@@ -50,7 +52,9 @@ export function getServices() {
 }
 
 export async function clearAllTestData(): Promise<void> {
-  const { userRepository, organizationRepository } = getRepositories();
+  const { userRepository, organizationRepository, outboxRepository } =
+    getRepositories();
   await userRepository.clear();
   await organizationRepository.clear();
+  await outboxRepository.clear();
 }
@@ -0,0 +1,253 @@
+import 'reflect-metadata';
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { getCurrentTransactionStatus } from '@/transaction-status';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+const ROLE_KEY = 'roles';
+
+// Stores metadata on the method like Nest's SetMetadata
+function Roles(...roles: string[]) {
+  return (
+    _target: object,
+    _propertyName: string,
+    descriptor: PropertyDescriptor,
+  ) => {
+    Reflect.defineMetadata(ROLE_KEY, roles, descriptor.value);
+  };
+}
+
+class DecoratedMethodsTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional()
+  @Roles('admin')
+  async saveUser(userId: string, name: string): Promise<void> {
+    await this.getRepository(User).save({ userId, name });
+  }
+
+  // Not declared async, but emitDecoratorMetadata records the Promise return type
+  @Transactional()
+  countUsers(): Promise<number> {
+    return this.getRepository(User).count();
+  }
+
+  @Transactional()
+  async *streamUsers(
+    userIds: string[],
+    failAfter?: number,
+  ): AsyncGenerator<{ userId: string; transactionId?: string }> {
+    for (const [index, userId] of userIds.entries()) {
+      if (index === failAfter) {
+        throw new Error('Stream failed');
+      }
+      await this.getRepository(User).save({ userId, name: userId });
+      yield {
+        userId,
+        transactionId: getCurrentTransactionStatus(this.dataSource)
+          ?.transactionId,
+      };
+    }
+  }
+}
+
+describe('Decorated methods', () => {
+  let service: DecoratedMethodsTestService;
+
+  const countUsers = () => testDataSource.getRepository(User).count();
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new DecoratedMethodsTestService(testDataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+  });
+
+  test('should keep the metadata, name and length of the method', () => {
+    // Given
+    const method = DecoratedMethodsTestService.prototype.saveUser;
+
+    // When / Then
+    expect(Reflect.getMetadata(ROLE_KEY, method)).toEqual(['admin']);
+    expect(method.name).toBe('saveUser');
+    expect(method.length).toBe(2);
+  });
+
+  test('should accept methods returning a Promise without async', async () => {
+    // When / Then
+    expect(await service.countUsers()).toBe(0);
+  });
+
+  test('should reject synchronous methods when decorating', () => {
+    // When / Then
+    expect(() => {
+      class SyncService {
+        @Transactional()
+        countUsers(): number {
+          return 0;
+        }
+      }
+      return SyncService;
+    }).toThrow(
+      '@Transactional cannot wrap SyncService.countUsers because it is neither async nor declared to return a Promise.',
+    );
+  });
+
+  test('should reject synchronous methods that start async callbacks', () => {
+    // When / Then
+    expect(() => {
+      class CallbackService {
+        @Transactional()
+        count(items: number[]): number {
+          items.forEach(async (item) => {
+            await item;
+          });
+          return items.length;
+        }
+      }
+      return CallbackService;
+    }).toThrow('@Transactional cannot wrap CallbackService.count');
+  });
+
+  test('should refuse to guess when neither the function nor metadata tell', () => {
+    // Given
+    class UndecoratedService {
+      countUsers(): Promise<number> {
+        return Promise.resolve(0);
+      }
+    }
+    const descriptor = Object.getOwnPropertyDescriptor(
+      UndecoratedService.prototype,
+      'countUsers',
+    ) as PropertyDescriptor;
+
+    // When / Then
+    expect(() =>
+      Transactional()(UndecoratedService.prototype, 'countUsers', descriptor),
+    ).toThrow(
+      '@Transactional cannot tell whether UndecoratedService.countUsers returns a Promise',
+    );
+  });
+
+  describe('async generator methods', () => {
+    test('should stream every item from one transaction', async () => {
+      // When
+      const items: { userId: string; transactionId?: string }[] = [];
+      for await (const item of service.streamUsers(['s1', 's2', 's3'])) {
+        items.push(item);
+      }
+
+      // Then
+      expect(items.map((item) => item.userId)).toEqual(['s1', 's2', 's3']);
+      expect(items[0].transactionId).toBeDefined();
+      expect(new Set(items.map((item) => item.transactionId)).size).toBe(1);
+      expect(await countUsers()).toBe(3);
+    });
+
+    test('should commit what was streamed when the caller stops early', async () => {
+      // When
+      for await (const item of service.streamUsers(['b1', 'b2', 'b3'])) {
+        if (item.userId === 'b2') {
+          break;
+        }
+      }
+
+      // Then
+      expect(await countUsers()).toBe(2);
+    });
+
+    test('should roll back when the generator fails', async () => {
+      // When
+      const consume = async () => {
+        for await (const _item of service.streamUsers(['f1', 'f2'], 1)) {
+          // Consumes until the generator fails
+        }
+      };
+
+      // Then
+      await expect(consume()).rejects.toThrow('Stream failed');
+      expect(await countUsers()).toBe(0);
+    });
+
+    test('should roll back when the caller throws into the generator', async () => {
+      // Given
+      const iterator = service.streamUsers(['c1', 'c2']);
+      await iterator.next();
+
+      // When
+      const result = iterator.throw(new Error('Consumer failed'));
+
+      // Then
+      await expect(result).rejects.toThrow('Consumer failed');
+      expect(await countUsers()).toBe(0);
+    });
+
+    test('should commit when a for await loop exits with an error', async () => {
+      // When
+      const consume = async () => {
+        for await (const _item of service.streamUsers(['e1', 'e2'])) {
+          throw new Error('Consumer failed');
+        }
+      };
+
+      // Then
+      await expect(consume()).rejects.toThrow('Consumer failed');
+      // for await only calls return() on the generator, like break
+      expect(await countUsers()).toBe(1);
+    });
+
+    test('should reject retry when the class is defined', () => {
+      // When / Then
+      expect(() => {
+        class RetryingStreamService {
+          @Transactional({ retry: { maxAttempts: 3 } })
+          async *streamUsers(): AsyncGenerator<string> {
+            yield 'user';
+          }
+        }
+        return RetryingStreamService;
+      }).toThrow(
+        "@Transactional cannot retry RetryingStreamService.streamUsers because it is an 'async *' method",
+      );
+    });
+
+    test('should reject retry inherited from class-level options', () => {
+      // When / Then
+      expect(() => {
+        @Transactional({ retry: { maxAttempts: 3 } })
+        class RetryingClassService {
+          @Transactional({ isolation: 'SERIALIZABLE' })
+          async *streamUsers(): AsyncGenerator<string> {
+            yield 'user';
+          }
+        }
+        return RetryingClassService;
+      }).toThrow(
+        "@Transactional cannot retry RetryingClassService.streamUsers because it is an 'async *' method",
+      );
+      expect(() => {
+        @Transactional({ retry: { maxAttempts: 3 } })
+        class RetryingClassService {
+          async *streamUsers(): AsyncGenerator<string> {
+            yield 'user';
+          }
+        }
+        return RetryingClassService;
+      }).toThrow(
+        "@Transactional cannot retry RetryingClassService.streamUsers because it is an 'async *' method",
+      );
+    });
+  });
+});
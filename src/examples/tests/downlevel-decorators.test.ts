@@ -0,0 +1,107 @@
+import 'reflect-metadata';
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { getCurrentTransactionStatus } from '@/transaction-status';
+import { testDataSource } from './config/test-db';
+import { ensureTestDatabaseInitialized } from './config/test-utils';
+
+// Compiled with target ES6 (see config/tsconfig.es6.json), so async methods are plain
+// functions calling __awaiter and only emitDecoratorMetadata tells them apart
+class DownlevelService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional()
+  async isInTransaction(): Promise<boolean> {
+    return getCurrentTransactionStatus(this.dataSource) !== null;
+  }
+
+  async undecorated(): Promise<void> {}
+}
+
+describe('Decorators on code compiled below ES2017', () => {
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+  });
+
+  test('should compile async methods to plain functions', () => {
+    // When / Then
+    expect(DownlevelService.prototype.undecorated.constructor.name).toBe(
+      'Function',
+    );
+  });
+
+  test('should wrap async methods through their recorded Promise return type', async () => {
+    // Given
+    const service = new DownlevelService(testDataSource);
+
+    // When / Then
+    expect(await service.isInTransaction()).toBe(true);
+  });
+
+  test('should reject synchronous methods that start async callbacks', () => {
+    // When / Then
+    expect(() => {
+      class CallbackService {
+        @Transactional()
+        count(items: number[]): number {
+          items.forEach(async (item) => {
+            await item;
+          });
+          return items.length;
+        }
+      }
+      return CallbackService;
+    }).toThrow(
+      '@Transactional cannot wrap CallbackService.count because it is neither async nor declared to return a Promise.',
+    );
+  });
+
+  test('should leave undecorated async methods of a native class unwrapped', () => {
+    // Given
+    class DownlevelClassService {
+      async save(): Promise<void> {}
+    }
+    const { save } = DownlevelClassService.prototype;
+
+    // When
+    Transactional()(DownlevelClassService);
+
+    // Then
+    expect(DownlevelClassService.prototype.save).toBe(save);
+  });
+
+  test('should reject class-level @Transactional on constructor functions', () => {
+    // Given
+    // What TypeScript emits for a class with an async method with target ES5
+    function LegacyService() {}
+    LegacyService.prototype.save = function () {
+      return Promise.resolve();
+    };
+    LegacyService.prototype.count = function (items: number[]) {
+      return items.length;
+    };
+
+    // When / Then
+    expect(() => Transactional()(LegacyService)).toThrow(
+      '@Transactional on LegacyService cannot tell whether these methods return a Promise: save, count. The class is compiled below ES2017',
+    );
+  });
+
+  test('should reject async generators, which need target ES2018', () => {
+    // When / Then
+    expect(() => {
+      class StreamService {
+        @Transactional()
+        async *stream(): AsyncGenerator<number> {
+          yield 1;
+        }
+      }
+      return StreamService;
+    }).toThrow("'async *' to stream results, which needs target ES2018");
+  });
+});
@@ -0,0 +1,166 @@
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { IllegalTransactionStateError } from '@/errors';
+import {
+  runAfterCommit,
+  runAfterCompletion,
+  runAfterRollback,
+  runBeforeCommit,
+} from '@/hooks';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+class HookTestService extends BaseTransactionalService {
+  constructor(
+    dataSource: DataSource,
+    private readonly events: string[],
+  ) {
+    super(dataSource);
+  }
+
+  @Transactional()
+  async required(name: string, fn?: () => Promise<void>): Promise<void> {
+    this.registerHooks(name);
+    if (fn) {
+      await fn();
+    }
+  }
+
+  @Transactional({ propagation: 'REQUIRES_NEW' })
+  async requiresNew(name: string): Promise<void> {
+    this.registerHooks(name);
+  }
+
+  @Transactional()
+  async saveUserWithFailingBeforeCommit(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+
+    runBeforeCommit(this.dataSource, () => {
+      throw new Error('beforeCommit failed');
+    });
+  }
+
+  private registerHooks(name: string): void {
+    runBeforeCommit(this.dataSource, () => {
+      this.events.push(`${name}:beforeCommit`);
+    });
+    runAfterCommit(this.dataSource, () => {
+      this.events.push(`${name}:afterCommit`);
+    });
+    runAfterRollback(this.dataSource, () => {
+      this.events.push(`${name}:afterRollback`);
+    });
+    runAfterCompletion(this.dataSource, (status) => {
+      this.events.push(`${name}:afterCompletion:${status}`);
+    });
+  }
+}
+
+describe('Transaction synchronization hooks', () => {
+  let events: string[];
+  let service: HookTestService;
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+    events = [];
+    service = new HookTestService(testDataSource, events);
+  });
+
+  test('should run beforeCommit, afterCommit and afterCompletion in order on commit', async () => {
+    // When
+    await service.required('outer');
+
+    // Then
+    expect(events).toEqual([
+      'outer:beforeCommit',
+      'outer:afterCommit',
+      'outer:afterCompletion:COMMITTED',
+    ]);
+  });
+
+  test('should run afterRollback and afterCompletion on rollback and rethrow the original error', async () => {
+    // When & Then
+    await expect(
+      service.required('outer', async () => {
+        throw new Error('Business failure');
+      }),
+    ).rejects.toThrow('Business failure');
+
+    expect(events).toEqual([
+      'outer:afterRollback',
+      'outer:afterCompletion:ROLLED_BACK',
+    ]);
+  });
+
+  test('should attach callbacks of joined REQUIRED calls to the outer transaction', async () => {
+    // When
+    await service.required('outer', async () => {
+      await service.required('inner');
+      // Inner callbacks must not fire before the outer transaction completes
+      expect(events).toEqual([]);
+    });
+
+    // Then
+    expect(events).toEqual([
+      'outer:beforeCommit',
+      'inner:beforeCommit',
+      'outer:afterCommit',
+      'inner:afterCommit',
+      'outer:afterCompletion:COMMITTED',
+      'inner:afterCompletion:COMMITTED',
+    ]);
+  });
+
+  test('should fire REQUIRES_NEW callbacks when the inner transaction completes', async () => {
+    // When
+    await service.required('outer', async () => {
+      await service.requiresNew('inner');
+      expect(events).toEqual([
+        'inner:beforeCommit',
+        'inner:afterCommit',
+        'inner:afterCompletion:COMMITTED',
+      ]);
+    });
+
+    // Then
+    expect(events.slice(3)).toEqual([
+      'outer:beforeCommit',
+      'outer:afterCommit',
+      'outer:afterCompletion:COMMITTED',
+    ]);
+  });
+
+  test('should roll back when a beforeCommit callback throws', async () => {
+    // When & Then
+    await expect(
+      service.saveUserWithFailingBeforeCommit('before-commit-user'),
+    ).rejects.toThrow('beforeCommit failed');
+
+    const { userRepository } = getRepositories();
+    expect(
+      await userRepository.findOneBy({ userId: 'before-commit-user' }),
+    ).toBeNull();
+  });
+
+  test('should throw IllegalTransactionStateError when no transaction is active', () => {
+    expect(() => runAfterCommit(testDataSource, () => {})).toThrow(
+      IllegalTransactionStateError,
+    );
+  });
+});
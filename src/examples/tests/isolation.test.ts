@@ -0,0 +1,198 @@
+import type { DataSource } from 'typeorm';
+import { UnsupportedIsolationLevelError } from '@/errors';
+import {
+  getIsolationFallback,
+  resolveIsolationLevel,
+  setIsolationFallbackPolicy,
+} from '@/isolation';
+import {
+  registerTransactionObserver,
+  type TransactionEvent,
+  unregisterTransactionObserver,
+} from '@/observers';
+import { runInTransaction } from '@/run-in-transaction';
+import { TransactionLogger } from '@/transaction-logger';
+import { getCurrentTransactionStatus } from '@/transaction-status';
+import { testDataSource } from './config/test-db';
+import { ensureTestDatabaseInitialized } from './config/test-utils';
+
+const dataSourceOfType = (type: string) =>
+  ({ options: { type } }) as unknown as DataSource;
+
+describe('Isolation level capabilities', () => {
+  let events: TransactionEvent[];
+  const observer = {
+    onIsolationChanged: (event: TransactionEvent) => {
+      events.push(event);
+    },
+  };
+
+  const readIsolation = () =>
+    getCurrentTransactionStatus(testDataSource)?.isolation;
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+  });
+
+  beforeEach(() => {
+    events = [];
+    registerTransactionObserver(observer, testDataSource);
+  });
+
+  afterEach(() => {
+    unregisterTransactionObserver(observer, testDataSource);
+    setIsolationFallbackPolicy('upgrade');
+  });
+
+  describe('capability table', () => {
+    test('should fall back to a stricter level the driver supports', () => {
+      // When / Then
+      expect(
+        getIsolationFallback(dataSourceOfType('postgres'), 'READ UNCOMMITTED'),
+      ).toBe('READ COMMITTED');
+      expect(
+        getIsolationFallback(dataSourceOfType('cockroachdb'), 'REPEATABLE READ'),
+      ).toBe('SERIALIZABLE');
+      expect(
+        getIsolationFallback(dataSourceOfType('oracle'), 'READ UNCOMMITTED'),
+      ).toBe('READ COMMITTED');
+      expect(
+        getIsolationFallback(dataSourceOfType('sqljs'), 'READ COMMITTED'),
+      ).toBe('SERIALIZABLE');
+    });
+
+    test('should keep supported levels and levels of unknown drivers', () => {
+      // When / Then
+      expect(
+        getIsolationFallback(dataSourceOfType('mysql'), 'READ UNCOMMITTED'),
+      ).toBe('READ UNCOMMITTED');
+      expect(
+        getIsolationFallback(dataSourceOfType('mongodb'), 'SERIALIZABLE'),
+      ).toBe('SERIALIZABLE');
+    });
+
+    test('should throw when the driver has no stricter level', () => {
+      // When / Then
+      expect(() =>
+        resolveIsolationLevel(dataSourceOfType('aurora-mysql'), 'SERIALIZABLE'),
+      ).toThrow(
+        "aurora-mysql does not support isolation level 'SERIALIZABLE' and has no stricter level to fall back to. Supported levels: REPEATABLE READ.",
+      );
+    });
+  });
+
+  describe('fallback policy', () => {
+    test('should upgrade unsupported levels and report the change by default', async () => {
+      // When
+      const isolation = await runInTransaction(
+        testDataSource,
+        async () => readIsolation(),
+        { isolation: 'READ COMMITTED' },
+      );
+
+      // Then
+      expect(isolation).toBe('SERIALIZABLE');
+      expect(events).toEqual([
+        expect.objectContaining({
+          type: 'ISOLATION_CHANGED',
+          methodName: 'runInTransaction',
+          isolation: 'READ COMMITTED',
+          effectiveIsolation: 'SERIALIZABLE',
+        }),
+      ]);
+    });
+
+    test('should not report supported levels', async () => {
+      // When
+      const isolation = await runInTransaction(
+        testDataSource,
+        async () => readIsolation(),
+        { isolation: 'READ UNCOMMITTED' },
+      );
+
+      // Then
+      expect(isolation).toBe('READ UNCOMMITTED');
+      expect(events).toHaveLength(0);
+    });
+
+    test('should throw before starting the transaction with the throw policy', async () => {
+      // Given
+      const fn = jest.fn();
+
+      // When
+      const result = runInTransaction(testDataSource, fn, {
+        isolation: 'REPEATABLE READ',
+        isolationFallback: 'throw',
+      });
+
+      // Then
+      await expect(result).rejects.toThrow(UnsupportedIsolationLevelError);
+      await result.catch((error: UnsupportedIsolationLevelError) => {
+        expect(error.isolation).toBe('REPEATABLE READ');
+        expect(error.driver).toBe('sqlite');
+      });
+      expect(fn).not.toHaveBeenCalled();
+      expect(events).toHaveLength(0);
+    });
+
+    test('should use the database default with the ignore policy', async () => {
+      // Given
+      setIsolationFallbackPolicy('ignore');
+
+      // When
+      const isolation = await runInTransaction(
+        testDataSource,
+        async () => readIsolation(),
+        { isolation: 'READ COMMITTED' },
+      );
+
+      // Then
+      expect(isolation).toBeUndefined();
+      expect(events).toEqual([
+        expect.objectContaining({
+          isolation: 'READ COMMITTED',
+          effectiveIsolation: undefined,
+        }),
+      ]);
+    });
+
+    test('should let the boundary override the configured policy', async () => {
+      // Given
+      setIsolationFallbackPolicy('throw');
+
+      // When
+      const isolation = await runInTransaction(
+        testDataSource,
+        async () => readIsolation(),
+        { isolation: 'READ COMMITTED', isolationFallback: 'upgrade' },
+      );
+
+      // Then
+      expect(isolation).toBe('SERIALIZABLE');
+    });
+
+    test('should log the change as a warning', async () => {
+      // Given
+      const sink = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+      const logger = new TransactionLogger({
+        logger: sink,
+        events: ['ISOLATION_CHANGED'],
+      });
+      registerTransactionObserver(logger, testDataSource);
+
+      // When
+      try {
+        await runInTransaction(testDataSource, async () => {}, {
+          isolation: 'READ COMMITTED',
+        });
+      } finally {
+        unregisterTransactionObserver(logger, testDataSource);
+      }
+
+      // Then
+      expect(sink.warn).toHaveBeenCalledWith(
+        '[transaction] ISOLATION_CHANGED runInTransaction (REQUIRED, depth 1, READ COMMITTED) runs at SERIALIZABLE',
+      );
+    });
+  });
+});
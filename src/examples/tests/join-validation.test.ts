@@ -0,0 +1,123 @@
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { IllegalTransactionStateError } from '@/errors';
+import { setJoinValidation } from '@/join-validation';
+import { testDataSource } from './config/test-db';
+import { ensureTestDatabaseInitialized } from './config/test-utils';
+
+class JoinValidationTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ isolation: 'READ UNCOMMITTED' })
+  async outer(inner: () => Promise<void>): Promise<void> {
+    await inner();
+  }
+
+  @Transactional({ timeout: 1000 })
+  async outerWithTimeout(inner: () => Promise<void>): Promise<void> {
+    await inner();
+  }
+
+  @Transactional({ isolation: 'SERIALIZABLE' })
+  async serializable(): Promise<void> {}
+
+  @Transactional({ isolation: 'READ UNCOMMITTED' })
+  async sameIsolation(): Promise<void> {}
+
+  @Transactional({ readOnly: true })
+  async readOnly(): Promise<void> {}
+
+  @Transactional({ timeout: 100 })
+  async shortTimeout(): Promise<void> {}
+
+  @Transactional({ timeout: 60_000 })
+  async longTimeout(): Promise<void> {}
+
+  @Transactional({ propagation: 'REQUIRES_NEW', isolation: 'SERIALIZABLE' })
+  async serializableInNewTransaction(): Promise<void> {}
+}
+
+describe('Join validation', () => {
+  let service: JoinValidationTestService;
+  let logger: { warn: jest.Mock };
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new JoinValidationTestService(testDataSource);
+  });
+
+  beforeEach(() => {
+    logger = { warn: jest.fn() };
+  });
+
+  afterEach(() => {
+    setJoinValidation('off');
+  });
+
+  test('should ignore conflicting options by default', async () => {
+    // When / Then
+    await expect(
+      service.outer(() => service.serializable()),
+    ).resolves.toBeUndefined();
+  });
+
+  test('should reject a conflicting isolation level in strict mode', async () => {
+    // Given
+    setJoinValidation('strict');
+
+    // When
+    const result = service.outer(() => service.serializable());
+
+    // Then
+    await expect(result).rejects.toThrow(IllegalTransactionStateError);
+    await expect(result).rejects.toThrow(
+      "JoinValidationTestService.serializable declares isolation 'SERIALIZABLE' but the transaction runs at 'READ UNCOMMITTED'",
+    );
+  });
+
+  test('should warn through the logger in warn mode', async () => {
+    // Given
+    setJoinValidation('warn', { logger });
+
+    // When
+    await service.outer(() => service.readOnly());
+
+    // Then
+    expect(logger.warn).toHaveBeenCalledWith(
+      'JoinValidationTestService.readOnly declares readOnly but the transaction is read-write; joined calls cannot change the transaction they join.',
+    );
+  });
+
+  test('should report a timeout stricter than what is left of the transaction', async () => {
+    // Given
+    setJoinValidation('warn', { logger });
+
+    // When
+    await service.outerWithTimeout(() => service.shortTimeout());
+    await service.outerWithTimeout(() => service.longTimeout());
+
+    // Then
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+    expect(logger.warn.mock.calls[0][0]).toMatch(
+      /shortTimeout declares timeout 100ms but the transaction has \d+ms left/,
+    );
+  });
+
+  test('should accept matching options and new transactions', async () => {
+    // Given
+    setJoinValidation('strict');
+
+    // When / Then
+    await expect(
+      service.outer(async () => {
+        await service.sameIsolation();
+        await service.serializableInNewTransaction();
+      }),
+    ).resolves.toBeUndefined();
+  });
+});
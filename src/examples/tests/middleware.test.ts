@@ -0,0 +1,336 @@
+import express from 'express';
+import request from 'supertest';
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import {
+  fastifyTransactionalPlugin,
+  koaTransactionalMiddleware,
+  transactionalMiddleware,
+} from '@/middleware';
+import { User } from '../entity/user.model';
+import { createApp } from '../example/express/app';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+  getServices,
+} from './config/test-utils';
+
+class MiddlewareTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional()
+  async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+}
+
+class ExpectedError extends Error {}
+
+describe('Per-request transaction middleware', () => {
+  let service: MiddlewareTestService;
+
+  const findUser = (userId: string) =>
+    getRepositories().userRepository.findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new MiddlewareTestService(testDataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+  });
+
+  describe('Express transactionalMiddleware', () => {
+    const createTestApp = (
+      handler: (
+        res: express.Response,
+        next: express.NextFunction,
+      ) => Promise<void>,
+    ) => {
+      const app = express();
+      app.post(
+        '/',
+        transactionalMiddleware(testDataSource, {
+          noRollbackFor: [ExpectedError],
+        }),
+        (_req, res, next) => handler(res, next),
+      );
+      return app;
+    };
+
+    test('should run every service call of the request in one transaction', async () => {
+      // Given
+      const transactionSpy = jest.spyOn(testDataSource, 'transaction');
+      const app = createApp(testDataSource, getServices());
+
+      // When
+      await request(app)
+        .post('/signup-with-middleware')
+        .send({
+          organizationId: 'middleware-org',
+          userId: 'middleware-user',
+          userName: 'Middleware User',
+        })
+        .expect(201);
+
+      // Then
+      expect(await findUser('middleware-user')).not.toBeNull();
+      expect(transactionSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should rollback everything when the handler responds with an error status', async () => {
+      // Given
+      const app = createApp(testDataSource, getServices());
+      jest
+        .spyOn(getServices().userService, 'createUser')
+        .mockRejectedValue(new Error('User creation failed'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      // When
+      await request(app)
+        .post('/signup-with-middleware')
+        .send({
+          organizationId: 'middleware-org-fail',
+          userId: 'middleware-user-fail',
+          userName: 'Middleware User',
+        })
+        .expect(500);
+
+      // Then
+      const org = await getRepositories().organizationRepository.findOneBy({
+        organizationId: 'middleware-org-fail',
+      });
+      expect(org).toBeNull();
+    });
+
+    test('should rollback on a 4xx response', async () => {
+      // Given
+      const app = createTestApp(async (res) => {
+        await service.saveUser('client-error');
+        res.status(409).json({ error: 'Conflict' });
+      });
+
+      // When
+      await request(app).post('/').expect(409);
+
+      // Then
+      expect(await findUser('client-error')).toBeNull();
+    });
+
+    test('should rollback when the handler throws', async () => {
+      // Given
+      const app = createTestApp(async () => {
+        await service.saveUser('thrown');
+        throw new Error('Handler failed');
+      });
+
+      // When
+      await request(app).post('/').expect(500);
+
+      // Then
+      expect(await findUser('thrown')).toBeNull();
+    });
+
+    test('should rollback when the handler calls next(err)', async () => {
+      // Given
+      const app = createTestApp(async (_res, next) => {
+        await service.saveUser('next-error');
+        next(new Error('Handler failed'));
+      });
+
+      // When
+      await request(app).post('/').expect(500);
+
+      // Then
+      expect(await findUser('next-error')).toBeNull();
+    });
+
+    test('should commit before the response is sent', async () => {
+      // Given
+      const app = createTestApp(async (res) => {
+        await service.saveUser('committed');
+        res.status(201).json({ ok: true });
+      });
+
+      // When
+      await request(app).post('/').expect(201);
+
+      // Then
+      expect(await findUser('committed')).not.toBeNull();
+    });
+  });
+
+  describe('Koa koaTransactionalMiddleware', () => {
+    const middleware = koaTransactionalMiddleware(testDataSource, {
+      noRollbackFor: [ExpectedError],
+    });
+
+    test('should commit when downstream middleware succeeds', async () => {
+      // Given
+      const ctx = { status: 404 };
+
+      // When
+      await middleware(ctx, async () => {
+        await service.saveUser('koa-success');
+        ctx.status = 200;
+      });
+
+      // Then
+      expect(await findUser('koa-success')).not.toBeNull();
+    });
+
+    test('should rollback on an error status', async () => {
+      // Given
+      const ctx = { status: 404 };
+
+      // When
+      await middleware(ctx, async () => {
+        await service.saveUser('koa-error-status');
+        ctx.status = 422;
+      });
+
+      // Then
+      expect(await findUser('koa-error-status')).toBeNull();
+    });
+
+    test('should rollback and rethrow when downstream middleware throws', async () => {
+      // Given
+      const ctx = { status: 404 };
+
+      // When
+      const result = middleware(ctx, async () => {
+        await service.saveUser('koa-thrown');
+        throw new Error('Downstream failed');
+      });
+
+      // Then
+      await expect(result).rejects.toThrow('Downstream failed');
+      expect(await findUser('koa-thrown')).toBeNull();
+    });
+
+    test('should commit and rethrow errors matching noRollbackFor', async () => {
+      // Given
+      const ctx = { status: 200 };
+
+      // When
+      const result = middleware(ctx, async () => {
+        await service.saveUser('koa-no-rollback');
+        throw new ExpectedError('Expected');
+      });
+
+      // Then
+      await expect(result).rejects.toThrow(ExpectedError);
+      expect(await findUser('koa-no-rollback')).not.toBeNull();
+    });
+  });
+
+  describe('Fastify fastifyTransactionalPlugin', () => {
+    type Hook = (...args: any[]) => void;
+
+    // Minimal stand-in for the Fastify request lifecycle
+    const createFastify = () => {
+      const hooks: Record<string, Hook> = {};
+      const plugin = fastifyTransactionalPlugin(testDataSource);
+      plugin(
+        { addHook: (name: string, hook: Hook) => (hooks[name] = hook) },
+        {},
+        () => {},
+      );
+
+      return async (
+        handler: (reply: { statusCode: number }) => Promise<void>,
+      ) => {
+        const req = {};
+        const reply = { statusCode: 200 };
+        // Fastify continues the lifecycle synchronously from `done`
+        const handled = await new Promise<Promise<void>>((resolve, reject) =>
+          hooks.onRequest(req, reply, (error?: unknown) =>
+            error ? reject(error) : resolve(handler(reply)),
+          ),
+        ).then(
+          () => undefined,
+          (error: unknown) => error,
+        );
+        if (handled) {
+          reply.statusCode = 500;
+          await new Promise((resolve) =>
+            hooks.onError(req, reply, handled, resolve),
+          );
+        }
+        const payload = await new Promise((resolve, reject) =>
+          hooks.onSend(req, reply, 'payload', (error: unknown, value: unknown) =>
+            error ? reject(error) : resolve(value),
+          ),
+        );
+        await new Promise((resolve) => hooks.onResponse(req, reply, resolve));
+        return payload;
+      };
+    };
+
+    test('should register its hooks on the parent instance', () => {
+      // When
+      const plugin = fastifyTransactionalPlugin(testDataSource);
+
+      // Then
+      expect(plugin).toHaveProperty([Symbol.for('skip-override')], true);
+    });
+
+    test('should commit before the payload is sent', async () => {
+      // Given
+      const transactionSpy = jest.spyOn(testDataSource, 'transaction');
+      const handle = createFastify();
+
+      // When
+      const payload = await handle(async () => {
+        await service.saveUser('fastify-success');
+        await service.saveUser('fastify-success-2');
+      });
+
+      // Then
+      expect(payload).toBe('payload');
+      expect(await findUser('fastify-success')).not.toBeNull();
+      expect(await findUser('fastify-success-2')).not.toBeNull();
+      expect(transactionSpy).toHaveBeenCalledTimes(1);
+    });
+
+    test('should rollback when the handler throws', async () => {
+      // Given
+      const handle = createFastify();
+
+      // When
+      await handle(async () => {
+        await service.saveUser('fastify-thrown');
+        throw new Error('Handler failed');
+      });
+
+      // Then
+      expect(await findUser('fastify-thrown')).toBeNull();
+    });
+
+    test('should rollback on an error status', async () => {
+      // Given
+      const handle = createFastify();
+
+      // When
+      await handle(async (reply) => {
+        await service.saveUser('fastify-error-status');
+        reply.statusCode = 400;
+      });
+
+      // Then
+      expect(await findUser('fastify-error-status')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,474 @@
+import type { DataSource, QueryRunner } from 'typeorm';
+import {
+  registerDataSource,
+  unregisterDataSource,
+} from '@/data-source-registry';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { IllegalTransactionStateError, PartialCommitError } from '@/errors';
+import { runAfterCommit, runAfterRollback } from '@/hooks';
+import { runInTransactions } from '@/multi-transaction';
+import {
+  registerTransactionObserver,
+  type TransactionEvent,
+  type TransactionObserver,
+  unregisterTransactionObserver,
+} from '@/observers';
+import { setTransactionTracer, type TransactionTracer } from '@/tracing';
+import { getCurrentTransactionStatus } from '@/transaction-status';
+import { User } from '../entity/user.model';
+import { createTestDataSource, testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+const auditDataSource = createTestDataSource();
+
+class MultiTransactionTestService extends BaseTransactionalService {
+  constructor(
+    dataSource: DataSource,
+    private readonly events: string[] = [],
+  ) {
+    super(dataSource);
+  }
+
+  @Transactional({ dataSources: ['default', 'audit'] })
+  async saveInBoth(userId: string, fail = false): Promise<void> {
+    await this.saveUser(userId);
+    await this.getRepository(User, 'audit').save(this.createUser(userId));
+
+    runAfterCommit(this.dataSource, () => {
+      this.events.push('default:afterCommit');
+    });
+    runAfterCommit(auditDataSource, () => {
+      this.events.push('audit:afterCommit');
+    });
+    runAfterRollback(auditDataSource, () => {
+      this.events.push('audit:afterRollback');
+    });
+
+    if (fail) {
+      throw new Error('Operation failed');
+    }
+  }
+
+  // Joins the default DataSource's transaction opened by saveInBoth
+  @Transactional()
+  async saveUser(userId: string): Promise<void> {
+    await this.getRepository(User).save(this.createUser(userId));
+  }
+
+  @Transactional({ dataSources: ['default', 'audit'], readOnly: true })
+  async readOnlyInBoth(): Promise<void> {}
+
+  private createUser(userId: string): User {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    return user;
+  }
+}
+
+// Records the SQL a DataSource would receive, for the two-phase commit tests
+function createFakeDataSource(
+  queries: string[],
+  name: string,
+  type = 'postgres',
+) {
+  const queryRunner = {
+    isTransactionActive: false,
+    manager: {},
+    connect: async () => {},
+    release: async () => {},
+    startTransaction: async () => {
+      queryRunner.isTransactionActive = true;
+      queries.push(`${name}: BEGIN`);
+    },
+    commitTransaction: async () => {
+      queryRunner.isTransactionActive = false;
+      queries.push(`${name}: COMMIT`);
+    },
+    rollbackTransaction: async () => {
+      queryRunner.isTransactionActive = false;
+      queries.push(`${name}: ROLLBACK`);
+    },
+    query: async (sql: string) => {
+      queries.push(`${name}: ${sql.replace(/'typeorm_tx_[^']+'/, "'<id>'")}`);
+    },
+  };
+  const dataSource = {
+    options: { type },
+    manager: {},
+    createQueryRunner: () => queryRunner,
+  } as unknown as DataSource;
+  return { dataSource, queryRunner: queryRunner as unknown as QueryRunner };
+}
+
+describe('Multi-DataSource transactions', () => {
+  let service: MultiTransactionTestService;
+  let events: string[];
+
+  const findUser = (dataSource: DataSource, userId: string) =>
+    dataSource.getRepository(User).findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    await auditDataSource.initialize();
+    registerDataSource('default', testDataSource);
+    registerDataSource('audit', auditDataSource);
+  });
+
+  afterAll(async () => {
+    unregisterDataSource('default', testDataSource);
+    unregisterDataSource('audit', auditDataSource);
+    await auditDataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    await auditDataSource.getRepository(User).clear();
+    events = [];
+    service = new MultiTransactionTestService(testDataSource, events);
+  });
+
+  test('should commit every DataSource and run their hooks', async () => {
+    // Given
+    const transactionSpy = jest.spyOn(testDataSource, 'transaction');
+
+    // When
+    await service.saveInBoth('both');
+
+    // Then
+    expect(await findUser(testDataSource, 'both')).not.toBeNull();
+    expect(await findUser(auditDataSource, 'both')).not.toBeNull();
+    expect(events).toEqual(['default:afterCommit', 'audit:afterCommit']);
+    // The nested @Transactional call joined the multi-DataSource transaction
+    expect(transactionSpy).not.toHaveBeenCalled();
+    transactionSpy.mockRestore();
+  });
+
+  test('should roll back every DataSource when the method fails', async () => {
+    // When
+    await expect(service.saveInBoth('failed', true)).rejects.toThrow(
+      'Operation failed',
+    );
+
+    // Then
+    expect(await findUser(testDataSource, 'failed')).toBeNull();
+    expect(await findUser(auditDataSource, 'failed')).toBeNull();
+    expect(events).toEqual(['audit:afterRollback']);
+  });
+
+  test('should report what committed when a later commit fails', async () => {
+    // Given
+    const auditRunner = auditDataSource.createQueryRunner();
+    jest
+      .spyOn(auditRunner, 'commitTransaction')
+      .mockRejectedValueOnce(new Error('Audit commit failed'));
+
+    // When
+    const result = service.saveInBoth('partial');
+
+    // Then
+    await expect(result).rejects.toThrow(PartialCommitError);
+    await result.catch((error: PartialCommitError) => {
+      expect(error.committed).toEqual(['default']);
+      expect(error.notCommitted).toEqual(['audit']);
+      expect(error.cause).toEqual(new Error('Audit commit failed'));
+    });
+    expect(await findUser(testDataSource, 'partial')).not.toBeNull();
+    expect(await findUser(auditDataSource, 'partial')).toBeNull();
+  });
+
+  test('should pass the managers to runInTransactions in order', async () => {
+    // When
+    await runInTransactions(
+      [testDataSource, 'audit'],
+      async ([mainManager, auditManager]) => {
+        await mainManager.save(User, { userId: 'main-only', name: 'Main' });
+        await auditManager.save(User, { userId: 'audit-only', name: 'Audit' });
+      },
+    );
+
+    // Then
+    expect(await findUser(testDataSource, 'main-only')).not.toBeNull();
+    expect(await findUser(testDataSource, 'audit-only')).toBeNull();
+    expect(await findUser(auditDataSource, 'audit-only')).not.toBeNull();
+  });
+
+  test('should roll back every DataSource when one is marked rollback-only', async () => {
+    // When
+    const result = await runInTransactions(
+      [testDataSource, auditDataSource],
+      async ([mainManager, auditManager]) => {
+        await mainManager.save(User, { userId: 'marked', name: 'Main' });
+        await auditManager.save(User, { userId: 'marked', name: 'Audit' });
+        getCurrentTransactionStatus(auditDataSource)?.setRollbackOnly();
+        return 'done';
+      },
+    );
+
+    // Then
+    expect(result).toBe('done');
+    expect(await findUser(testDataSource, 'marked')).toBeNull();
+    expect(await findUser(auditDataSource, 'marked')).toBeNull();
+  });
+
+  test('should reject options that need a single transaction', async () => {
+    // When / Then
+    await expect(service.readOnlyInBoth()).rejects.toThrow(
+      IllegalTransactionStateError,
+    );
+  });
+
+  describe('two-phase commit', () => {
+    test('should commit in order without preparing by default', async () => {
+      // Given
+      const queries: string[] = [];
+      const main = createFakeDataSource(queries, 'main');
+      const audit = createFakeDataSource(queries, 'audit');
+
+      // When
+      await runInTransactions([main.dataSource, audit.dataSource], async () => {
+        queries.push('work');
+      });
+
+      // Then
+      expect(queries).toEqual([
+        'main: BEGIN',
+        'audit: BEGIN',
+        'work',
+        'main: COMMIT',
+        'audit: COMMIT',
+      ]);
+    });
+
+    test('should prepare every Postgres transaction before committing them in order', async () => {
+      // Given
+      const queries: string[] = [];
+      const main = createFakeDataSource(queries, 'main');
+      const audit = createFakeDataSource(queries, 'audit');
+
+      // When
+      await runInTransactions(
+        [main.dataSource, audit.dataSource],
+        async () => {
+          queries.push('work');
+        },
+        { twoPhaseCommit: true },
+      );
+
+      // Then
+      expect(queries).toEqual([
+        'main: BEGIN',
+        'audit: BEGIN',
+        'work',
+        "main: PREPARE TRANSACTION '<id>'",
+        'main: COMMIT',
+        "audit: PREPARE TRANSACTION '<id>'",
+        'audit: COMMIT',
+        "main: COMMIT PREPARED '<id>'",
+        "audit: COMMIT PREPARED '<id>'",
+      ]);
+    });
+
+    test('should roll back prepared transactions when preparing fails', async () => {
+      // Given
+      const queries: string[] = [];
+      const main = createFakeDataSource(queries, 'main');
+      const audit = createFakeDataSource(queries, 'audit');
+      const auditQuery = audit.queryRunner.query.bind(audit.queryRunner);
+      jest
+        .spyOn(audit.queryRunner, 'query')
+        .mockImplementation(async (sql: string) => {
+          if (sql.startsWith('PREPARE')) {
+            throw new Error('max_prepared_transactions is 0');
+          }
+          return await auditQuery(sql);
+        });
+
+      // When
+      const result = runInTransactions(
+        [main.dataSource, audit.dataSource],
+        async () => {},
+        { twoPhaseCommit: true },
+      );
+
+      // Then
+      await expect(result).rejects.toThrow('max_prepared_transactions is 0');
+      expect(queries).toEqual([
+        'main: BEGIN',
+        'audit: BEGIN',
+        "main: PREPARE TRANSACTION '<id>'",
+        'main: COMMIT',
+        "main: ROLLBACK PREPARED '<id>'",
+        'audit: ROLLBACK',
+      ]);
+    });
+
+    test('should run MySQL and MariaDB participants as XA transactions', async () => {
+      // Given
+      const queries: string[] = [];
+      const main = createFakeDataSource(queries, 'main');
+      const orders = createFakeDataSource(queries, 'orders', 'mysql');
+
+      // When
+      await runInTransactions(
+        [main.dataSource, orders.dataSource],
+        async () => {
+          queries.push('work');
+        },
+        { isolation: 'READ COMMITTED', twoPhaseCommit: true },
+      );
+
+      // Then
+      expect(queries).toEqual([
+        'main: BEGIN',
+        'orders: SET TRANSACTION ISOLATION LEVEL READ COMMITTED',
+        "orders: XA START '<id>'",
+        'work',
+        "main: PREPARE TRANSACTION '<id>'",
+        'main: COMMIT',
+        "orders: XA END '<id>'",
+        "orders: XA PREPARE '<id>'",
+        "main: COMMIT PREPARED '<id>'",
+        "orders: XA COMMIT '<id>'",
+      ]);
+      expect(orders.queryRunner.isTransactionActive).toBe(false);
+    });
+
+    test('should roll back an XA transaction when the method fails', async () => {
+      // Given
+      const queries: string[] = [];
+      const orders = createFakeDataSource(queries, 'orders', 'mysql');
+      const audit = createFakeDataSource(queries, 'audit', 'mariadb');
+
+      // When
+      const result = runInTransactions(
+        [orders.dataSource, audit.dataSource],
+        async () => {
+          throw new Error('Operation failed');
+        },
+        { twoPhaseCommit: true },
+      );
+
+      // Then
+      await expect(result).rejects.toThrow('Operation failed');
+      // Both roll back concurrently
+      for (const name of ['orders', 'audit']) {
+        expect(queries.filter((query) => query.startsWith(name))).toEqual([
+          `${name}: XA START '<id>'`,
+          `${name}: XA END '<id>'`,
+          `${name}: XA ROLLBACK '<id>'`,
+        ]);
+      }
+    });
+  });
+
+  describe('observers and tracing', () => {
+    test('should report one boundary per DataSource', async () => {
+      // Given
+      const events: TransactionEvent[] = [];
+      const observer: TransactionObserver = {
+        onBegin: (event) => events.push(event),
+        onCommit: (event) => events.push(event),
+        onRollback: (event) => events.push(event),
+        onError: (event) => events.push(event),
+      };
+      registerTransactionObserver(observer);
+
+      // When
+      try {
+        await service.saveInBoth('observed');
+        await expect(service.saveInBoth('failed', true)).rejects.toThrow(
+          'Operation failed',
+        );
+      } finally {
+        unregisterTransactionObserver(observer);
+      }
+
+      // Then
+      expect(
+        events.map(
+          (event) =>
+            `${event.type} ${event.dataSource === auditDataSource ? 'audit' : 'default'}`,
+        ),
+      ).toEqual([
+        'BEGIN default',
+        'BEGIN audit',
+        'COMMIT default',
+        'COMMIT audit',
+        'BEGIN default',
+        'BEGIN audit',
+        'ERROR default',
+        'ROLLBACK default',
+        'ERROR audit',
+        'ROLLBACK audit',
+      ]);
+      expect(events[0]).toMatchObject({
+        className: 'MultiTransactionTestService',
+        methodName: 'saveInBoth',
+        propagation: 'REQUIRED',
+        depth: 1,
+      });
+      expect(events[2].duration).toEqual(expect.any(Number));
+    });
+
+    test('should open a span per DataSource', async () => {
+      // Given
+      const spans: { name: string; attributes: Record<string, unknown> }[] =
+        [];
+      const tracer: TransactionTracer = {
+        startActiveSpan: (name, options, fn) => {
+          const recorded = { name, attributes: { ...options.attributes } };
+          spans.push(recorded);
+          return fn({
+            setAttribute: (key, value) => {
+              recorded.attributes[key] = value;
+            },
+            addEvent: () => {},
+            recordException: () => {},
+            setStatus: () => {},
+            end: () => {},
+          }) as never;
+        },
+      };
+      setTransactionTracer(tracer);
+
+      // When
+      try {
+        await service.saveInBoth('traced');
+      } finally {
+        setTransactionTracer();
+      }
+
+      // Then
+      const transactions = spans.filter((span) =>
+        span.name.startsWith('transaction '),
+      );
+      expect(transactions).toEqual([
+        {
+          name: 'transaction MultiTransactionTestService.saveInBoth',
+          attributes: expect.objectContaining({
+            'transaction.data_source': 'default',
+            'transaction.outcome': 'COMMITTED',
+          }),
+        },
+        {
+          name: 'transaction MultiTransactionTestService.saveInBoth',
+          attributes: expect.objectContaining({
+            'transaction.data_source': 'audit',
+            'transaction.outcome': 'COMMITTED',
+          }),
+        },
+      ]);
+      // The nested @Transactional call joined the default DataSource's transaction
+      expect(spans.map((span) => span.name)).toContain(
+        'join MultiTransactionTestService.saveUser',
+      );
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import type { DataSource } from 'typeorm';
+import {
+  registerDataSource,
+  unregisterDataSource,
+} from '@/data-source-registry';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { User } from '../entity/user.model';
+import { createTestDataSource, testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+const billingDataSource = createTestDataSource();
+
+class MultiDataSourceTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ connectionName: 'billing' })
+  async saveBillingUser(userId: string, fail = false): Promise<void> {
+    await this.getRepository(User, 'billing').save(this.createUser(userId));
+    if (fail) {
+      throw new Error('Billing failed');
+    }
+  }
+
+  @Transactional()
+  async saveUsersInBoth(userId: string, failBilling = false): Promise<void> {
+    await this.getRepository(User).save(this.createUser(userId));
+    await this.saveBillingUser(userId, failBilling);
+  }
+
+  @Transactional({ connectionName: 'billing' })
+  async getBillingManagerState(): Promise<{
+    billingInTransaction: boolean;
+    defaultInTransaction: boolean;
+  }> {
+    return {
+      billingInTransaction:
+        this.getManager('billing').queryRunner?.isTransactionActive ?? false,
+      defaultInTransaction:
+        this.getManager().queryRunner?.isTransactionActive ?? false,
+    };
+  }
+
+  @Transactional({ connectionName: 'missing' })
+  async useMissingDataSource(): Promise<void> {}
+
+  private createUser(userId: string): User {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    return user;
+  }
+}
+
+describe('@Transactional with named DataSources', () => {
+  let service: MultiDataSourceTestService;
+
+  const findUser = (dataSource: DataSource, userId: string) =>
+    dataSource.getRepository(User).findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    await billingDataSource.initialize();
+    registerDataSource('billing', billingDataSource);
+    service = new MultiDataSourceTestService(testDataSource);
+  });
+
+  afterAll(async () => {
+    unregisterDataSource('billing', billingDataSource);
+    await billingDataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    await billingDataSource.getRepository(User).clear();
+  });
+
+  test('should run the method on the DataSource selected by connectionName', async () => {
+    // Given
+    const defaultSpy = jest.spyOn(testDataSource, 'transaction');
+    const billingSpy = jest.spyOn(billingDataSource, 'transaction');
+
+    // When
+    await service.saveBillingUser('billing-user');
+
+    // Then
+    expect(await findUser(billingDataSource, 'billing-user')).not.toBeNull();
+    expect(await findUser(testDataSource, 'billing-user')).toBeNull();
+    expect(billingSpy).toHaveBeenCalledTimes(1);
+    expect(defaultSpy).not.toHaveBeenCalled();
+
+    defaultSpy.mockRestore();
+    billingSpy.mockRestore();
+  });
+
+  test('should keep a transaction per DataSource', async () => {
+    // When
+    await service.saveUsersInBoth('both-user');
+
+    // Then
+    expect(await findUser(testDataSource, 'both-user')).not.toBeNull();
+    expect(await findUser(billingDataSource, 'both-user')).not.toBeNull();
+  });
+
+  test('should roll back each DataSource at its own boundary', async () => {
+    // When
+    await expect(service.saveUsersInBoth('rollback-user', true)).rejects.toThrow(
+      'Billing failed',
+    );
+
+    // Then
+    expect(await findUser(testDataSource, 'rollback-user')).toBeNull();
+    expect(await findUser(billingDataSource, 'rollback-user')).toBeNull();
+  });
+
+  test('should resolve getManager by DataSource name against its own context', async () => {
+    // When
+    const state = await service.getBillingManagerState();
+
+    // Then
+    expect(state).toEqual({
+      billingInTransaction: true,
+      defaultInTransaction: false,
+    });
+  });
+
+  test('should throw when the named DataSource is not registered', async () => {
+    // When / Then
+    await expect(service.useMissingDataSource()).rejects.toThrow(
+      "DataSource 'missing' is not registered.",
+    );
+  });
+});
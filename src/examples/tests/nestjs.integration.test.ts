@@ -1,4 +1,8 @@
-import type { INestApplication } from '@nestjs/common';
+import {
+  HttpException,
+  HttpStatus,
+  type INestApplication,
+} from '@nestjs/common';
 import { Test, type TestingModule } from '@nestjs/testing';
 import request from 'supertest';
 import type { DataSource, Repository } from 'typeorm';
@@ -233,5 +237,89 @@ describe('NestJS Integration Test - @Transactional decorator with HTTP endpoints
         transactionSpy.mockRestore();
       });
     });
+
+    describe('🧩 With @TransactionalRoute (controller composes services)', () => {
+      test('should run the whole handler in a single transaction', async () => {
+        // Given
+        const transactionSpy = jest.spyOn(dataSource, 'transaction');
+        const signupData = {
+          organizationId: 'nestjs-test-org-composed',
+          userId: 'nestjs-test-user-composed',
+          userName: 'NestJS Test User Composed',
+        };
+
+        // When
+        const response = await request(app.getHttpServer())
+          .post('/signup/composed')
+          .send(signupData)
+          .expect(201);
+
+        // Then
+        expect(response.body.success).toBe(true);
+
+        const user = await userRepository.findOne({
+          where: { userId: signupData.userId },
+          relations: ['organization'],
+        });
+        expect(user?.organization?.organizationId).toBe(
+          signupData.organizationId,
+        );
+
+        // ✅ Services joined the route transaction
+        expect(transactionSpy).toHaveBeenCalledTimes(1);
+      });
+
+      test('should rollback everything when the handler throws', async () => {
+        // Given
+        const signupData = {
+          organizationId: 'nestjs-test-org-composed-fail',
+          userId: 'nestjs-test-user-composed-fail',
+          userName: 'NestJS Test User Composed Fail',
+        };
+
+        jest
+          .spyOn(userService, 'createUser')
+          .mockRejectedValue(new Error('NestJS User creation failed'));
+
+        // When
+        await request(app.getHttpServer())
+          .post('/signup/composed')
+          .send(signupData)
+          .expect(500);
+
+        // Then
+        const org = await organizationRepository.findOneBy({
+          organizationId: signupData.organizationId,
+        });
+        expect(org).toBeNull();
+      });
+
+      test('should rollback when the handler fails with an HttpException', async () => {
+        // Given
+        const signupData = {
+          organizationId: 'nestjs-test-org-composed-conflict',
+          userId: 'nestjs-test-user-composed-conflict',
+          userName: 'NestJS Test User Composed Conflict',
+        };
+
+        jest
+          .spyOn(userService, 'createUser')
+          .mockRejectedValue(
+            new HttpException('User already exists', HttpStatus.CONFLICT),
+          );
+
+        // When
+        await request(app.getHttpServer())
+          .post('/signup/composed')
+          .send(signupData)
+          .expect(409);
+
+        // Then
+        const org = await organizationRepository.findOneBy({
+          organizationId: signupData.organizationId,
+        });
+        expect(org).toBeNull();
+      });
+    });
   });
 });
@@ -0,0 +1,158 @@
+import { Injectable } from '@nestjs/common';
+import { Test, type TestingModule } from '@nestjs/testing';
+import type { DataSource, Repository } from 'typeorm';
+import { getRegisteredDataSource } from '@/data-source-registry';
+import { Transactional } from '@/decorators/transactional';
+import {
+  InjectTransactionalRepository,
+  TransactionalModule,
+  TransactionManagerService,
+} from '@/nestjs';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+@Injectable()
+class PlainUserService {
+  constructor(
+    private readonly transactionManager: TransactionManagerService,
+  ) {}
+
+  @Transactional()
+  async createUsers(userIds: string[], fail = false): Promise<void> {
+    const userRepository = this.transactionManager.getRepository(User);
+    for (const userId of userIds) {
+      await userRepository.save({ userId, name: userId });
+    }
+    if (fail) {
+      throw new Error('Creating users failed');
+    }
+  }
+}
+
+@Injectable()
+class InjectedRepositoryService {
+  constructor(
+    @InjectTransactionalRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  @Transactional()
+  async createUsers(userIds: string[], fail = false): Promise<void> {
+    for (const userId of userIds) {
+      await this.userRepository.save({ userId, name: userId });
+    }
+    if (fail) {
+      throw new Error('Creating users failed');
+    }
+  }
+}
+
+describe('TransactionalModule', () => {
+  let dataSource: DataSource;
+  let testModule: TestingModule;
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    dataSource = testDataSource;
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+  });
+
+  afterEach(async () => {
+    await testModule?.close();
+  });
+
+  test('forRoot should let @Transactional resolve the DataSource without a base class', async () => {
+    // Given
+    testModule = await Test.createTestingModule({
+      imports: [TransactionalModule.forRoot({ dataSource })],
+      providers: [PlainUserService],
+    }).compile();
+    const service = testModule.get(PlainUserService);
+    const transactionSpy = jest.spyOn(dataSource, 'transaction');
+
+    // When
+    await expect(
+      service.createUsers(['nest-user-1', 'nest-user-2'], true),
+    ).rejects.toThrow('Creating users failed');
+    await service.createUsers(['nest-user-3']);
+
+    // Then
+    expect(transactionSpy.mock.calls.length).toEqual(2);
+    const { userRepository } = getRepositories();
+    expect((await userRepository.find()).map((user) => user.userId)).toEqual([
+      'nest-user-3',
+    ]);
+  });
+
+  test('forRootAsync should register DataSources from a factory', async () => {
+    // Given
+    testModule = await Test.createTestingModule({
+      imports: [
+        TransactionalModule.forRootAsync({
+          useFactory: async () => ({
+            dataSource,
+            dataSources: { reporting: dataSource },
+          }),
+        }),
+      ],
+    }).compile();
+    const transactionManager = testModule.get(TransactionManagerService);
+
+    // When
+    const managers = await transactionManager.runInTransaction(
+      async (manager) => [manager, transactionManager.getManager('reporting')],
+    );
+
+    // Then
+    expect(transactionManager.getDataSource()).toBe(dataSource);
+    expect(getRegisteredDataSource('reporting')).toBe(dataSource);
+    expect(managers[1]).toBe(managers[0]);
+    expect(transactionManager.getManager()).toBe(dataSource.manager);
+  });
+
+  test('forFeature should inject repositories that follow the active transaction', async () => {
+    // Given
+    testModule = await Test.createTestingModule({
+      imports: [
+        TransactionalModule.forRoot({ dataSource }),
+        TransactionalModule.forFeature([User]),
+      ],
+      providers: [InjectedRepositoryService],
+    }).compile();
+    const service = testModule.get(InjectedRepositoryService);
+
+    // When
+    await expect(
+      service.createUsers(['injected-1', 'injected-2'], true),
+    ).rejects.toThrow('Creating users failed');
+    await service.createUsers(['injected-3']);
+
+    // Then
+    const { userRepository } = getRepositories();
+    expect((await userRepository.find()).map((user) => user.userId)).toEqual([
+      'injected-3',
+    ]);
+  });
+
+  test('should unregister DataSources when the module is closed', async () => {
+    // Given
+    testModule = await Test.createTestingModule({
+      imports: [TransactionalModule.forRoot({ dataSource })],
+    }).compile();
+
+    // When
+    await testModule.close();
+
+    // Then
+    expect(getRegisteredDataSource()).toBeUndefined();
+  });
+});
@@ -0,0 +1,266 @@
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import {
+  registerTransactionObserver,
+  type TransactionEvent,
+  type TransactionObserver,
+  unregisterTransactionObserver,
+} from '@/observers';
+import { runInTransaction } from '@/run-in-transaction';
+import { TransactionLogger } from '@/transaction-logger';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+class ExpectedError extends Error {}
+
+class ObserverTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ isolation: 'SERIALIZABLE' })
+  async outer(inner?: () => Promise<void>): Promise<void> {
+    await this.saveUser('outer');
+    if (inner) {
+      await inner();
+    }
+  }
+
+  @Transactional()
+  async joined(): Promise<void> {
+    await this.saveUser('joined');
+  }
+
+  @Transactional({ propagation: 'NESTED' })
+  async nestedFailing(): Promise<void> {
+    throw new Error('Nested failed');
+  }
+
+  @Transactional({ propagation: 'REQUIRES_NEW' })
+  async requiresNew(): Promise<void> {}
+
+  @Transactional({ noRollbackFor: [ExpectedError] })
+  async failWithoutRollback(): Promise<void> {
+    throw new ExpectedError('Expected');
+  }
+
+  @Transactional()
+  async fail(): Promise<void> {
+    throw new Error('Failed');
+  }
+
+  private async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+}
+
+describe('Transaction observers', () => {
+  let service: ObserverTestService;
+  let events: TransactionEvent[];
+  let observer: TransactionObserver;
+
+  const summarize = () =>
+    events.map((event) => `${event.type} ${event.methodName} ${event.depth}`);
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new ObserverTestService(testDataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    events = [];
+    const record = (event: TransactionEvent) => events.push(event);
+    observer = {
+      onBegin: record,
+      onJoin: record,
+      onSavepoint: record,
+      onCommit: record,
+      onRollback: record,
+      onError: record,
+    };
+    registerTransactionObserver(observer, testDataSource);
+  });
+
+  afterEach(() => {
+    unregisterTransactionObserver(observer, testDataSource);
+  });
+
+  test('should report begin, join and commit with the declaring method', async () => {
+    // When
+    await service.outer(() => service.joined());
+
+    // Then
+    expect(summarize()).toEqual([
+      'BEGIN outer 1',
+      'JOIN joined 1',
+      'COMMIT outer 1',
+    ]);
+    expect(events[0]).toMatchObject({
+      className: 'ObserverTestService',
+      propagation: 'REQUIRED',
+      isolation: 'SERIALIZABLE',
+      readOnly: false,
+      attempt: 1,
+    });
+    expect(events[2].duration).toEqual(expect.any(Number));
+  });
+
+  test('should report savepoints and their rollback with the error', async () => {
+    // When
+    await service.outer(() => service.nestedFailing().catch(() => {}));
+
+    // Then
+    expect(summarize()).toEqual([
+      'BEGIN outer 1',
+      'SAVEPOINT nestedFailing 2',
+      'ERROR nestedFailing 2',
+      'ROLLBACK nestedFailing 2',
+      'COMMIT outer 1',
+    ]);
+    expect(events[3].error).toEqual(new Error('Nested failed'));
+  });
+
+  test('should count the suspended transaction in the depth of REQUIRES_NEW', async () => {
+    // When
+    await service.outer(() => service.requiresNew());
+
+    // Then
+    expect(summarize()).toEqual([
+      'BEGIN outer 1',
+      'BEGIN requiresNew 2',
+      'COMMIT requiresNew 2',
+      'COMMIT outer 1',
+    ]);
+  });
+
+  test('should report an error followed by rollback', async () => {
+    // When
+    await expect(service.fail()).rejects.toThrow('Failed');
+
+    // Then
+    expect(summarize()).toEqual([
+      'BEGIN fail 1',
+      'ERROR fail 1',
+      'ROLLBACK fail 1',
+    ]);
+  });
+
+  test('should report an error followed by commit for noRollbackFor errors', async () => {
+    // When
+    await expect(service.failWithoutRollback()).rejects.toThrow(ExpectedError);
+
+    // Then
+    expect(summarize()).toEqual([
+      'BEGIN failWithoutRollback 1',
+      'ERROR failWithoutRollback 1',
+      'COMMIT failWithoutRollback 1',
+    ]);
+  });
+
+  test('should name runInTransaction boundaries after the function', async () => {
+    // When
+    await runInTransaction(testDataSource, async function importUsers() {});
+
+    // Then
+    expect(events[0]).toMatchObject({
+      className: undefined,
+      methodName: 'importUsers',
+    });
+  });
+
+  test('should notify global observers and ignore observer failures', async () => {
+    // Given
+    const failing: TransactionObserver = {
+      onBegin: () => {
+        throw new Error('Observer failed');
+      },
+    };
+    registerTransactionObserver(failing);
+
+    // When
+    try {
+      await service.joined();
+    } finally {
+      unregisterTransactionObserver(failing);
+    }
+
+    // Then
+    expect(summarize()).toEqual(['BEGIN joined 1', 'COMMIT joined 1']);
+  });
+
+  describe('TransactionLogger', () => {
+    const createSink = () => ({
+      debug: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    });
+
+    test('should log text lines with levels by event type', async () => {
+      // Given
+      const sink = createSink();
+      const logger = new TransactionLogger({ logger: sink });
+      registerTransactionObserver(logger, testDataSource);
+
+      // When
+      try {
+        await expect(service.fail()).rejects.toThrow('Failed');
+      } finally {
+        unregisterTransactionObserver(logger, testDataSource);
+      }
+
+      // Then
+      expect(sink.debug).toHaveBeenCalledWith(
+        '[transaction] BEGIN ObserverTestService.fail (REQUIRED, depth 1)',
+      );
+      expect(sink.error).toHaveBeenCalledWith(
+        expect.stringMatching(
+          /^\[transaction\] ERROR ObserverTestService\.fail \(REQUIRED, depth 1\) after \d+ms: Error: Failed$/,
+        ),
+      );
+      expect(sink.warn).toHaveBeenCalledWith(
+        expect.stringContaining('ROLLBACK ObserverTestService.fail'),
+      );
+    });
+
+    test('should log structured records for the selected events', async () => {
+      // Given
+      const sink = createSink();
+      const logger = new TransactionLogger({
+        logger: sink,
+        structured: true,
+        events: ['COMMIT'],
+      });
+      registerTransactionObserver(logger, testDataSource);
+
+      // When
+      try {
+        await service.joined();
+      } finally {
+        unregisterTransactionObserver(logger, testDataSource);
+      }
+
+      // Then
+      expect(sink.debug).toHaveBeenCalledTimes(1);
+      expect(sink.debug).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'COMMIT',
+          transaction: 'ObserverTestService.joined',
+          propagation: 'REQUIRED',
+          depth: 1,
+          durationMs: expect.any(Number),
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { IllegalTransactionStateError } from '@/errors';
+import {
+  type OutboxMessage,
+  type OutboxPublisher,
+  OutboxRelay,
+  publishToOutbox,
+} from '@/outbox';
+import { runInTransaction } from '@/run-in-transaction';
+import type { OrganizationService } from '../service/organization.service';
+import type { SignupService } from '../service/signup.service';
+import type { UserService } from '../service/user.service';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+  getServices,
+} from './config/test-utils';
+
+class RecordingPublisher implements OutboxPublisher {
+  readonly published: OutboxMessage[] = [];
+  failures = 0;
+
+  async publish(message: OutboxMessage): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Broker unavailable');
+    }
+    this.published.push(message);
+  }
+}
+
+describe('Transactional outbox', () => {
+  let organizationService: OrganizationService;
+  let userService: UserService;
+  let signupService: SignupService;
+  let publisher: RecordingPublisher;
+
+  const findMessages = () =>
+    getRepositories().outboxRepository.find({ order: { createdAt: 'ASC' } });
+
+  const createRelay = (options: { maxAttempts?: number } = {}) =>
+    new OutboxRelay({
+      dataSource: testDataSource,
+      publisher,
+      retry: { maxAttempts: options.maxAttempts ?? 3, initialDelay: 0 },
+    });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    ({ organizationService, userService, signupService } = getServices());
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+    publisher = new RecordingPublisher();
+  });
+
+  describe('publishToOutbox', () => {
+    test('should write the event in the same transaction as the business data', async () => {
+      // When
+      await organizationService.createOrganization({
+        organizationId: 'outbox-org',
+        isEnterprise: false,
+      });
+
+      // Then
+      const messages = await findMessages();
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({
+        type: 'organization.created',
+        payload: { organizationId: 'outbox-org' },
+        status: 'PENDING',
+        attempts: 0,
+      });
+    });
+
+    test('should discard the event when the transaction rolls back', async () => {
+      // Given
+      jest
+        .spyOn(userService, 'createUser')
+        .mockRejectedValue(new Error('User creation failed'));
+
+      // When
+      await expect(
+        signupService.signup({
+          organizationId: 'outbox-rollback-org',
+          userId: 'outbox-rollback-user',
+          userName: 'Outbox User',
+        }),
+      ).rejects.toThrow('User creation failed');
+
+      // Then
+      expect(await findMessages()).toHaveLength(0);
+    });
+
+    test('should require an active transaction', async () => {
+      // When / Then
+      await expect(
+        publishToOutbox(testDataSource, { type: 'orphan', payload: {} }),
+      ).rejects.toThrow(IllegalTransactionStateError);
+    });
+  });
+
+  describe('OutboxRelay', () => {
+    test('should publish pending messages and mark them as sent', async () => {
+      // Given
+      await runInTransaction(testDataSource, async () => {
+        await publishToOutbox(testDataSource, { type: 'first', payload: 1 });
+        await publishToOutbox(testDataSource, { type: 'second', payload: 2 });
+      });
+
+      // When
+      const processed = await createRelay().processBatch();
+
+      // Then
+      expect(processed).toBe(2);
+      expect(publisher.published.map((message) => message.type)).toEqual([
+        'first',
+        'second',
+      ]);
+      const messages = await findMessages();
+      expect(messages.every((message) => message.status === 'SENT')).toBe(
+        true,
+      );
+      expect(messages[0].sentAt).toBeInstanceOf(Date);
+      expect(await createRelay().processBatch()).toBe(0);
+    });
+
+    test('should not publish messages before they are available', async () => {
+      // Given
+      await runInTransaction(testDataSource, async () => {
+        await publishToOutbox(testDataSource, {
+          type: 'scheduled',
+          payload: {},
+          availableAt: new Date(Date.now() + 60_000),
+        });
+      });
+
+      // When
+      const processed = await createRelay().processBatch();
+
+      // Then
+      expect(processed).toBe(0);
+      expect(publisher.published).toHaveLength(0);
+    });
+
+    test('should retry failed messages with backoff', async () => {
+      // Given
+      publisher.failures = 1;
+      await runInTransaction(testDataSource, async () => {
+        await publishToOutbox(testDataSource, { type: 'flaky', payload: {} });
+      });
+      const relay = createRelay();
+
+      // When
+      await relay.processBatch();
+      const [failed] = await findMessages();
+      await relay.processBatch();
+
+      // Then
+      expect(failed).toMatchObject({
+        status: 'PENDING',
+        attempts: 1,
+        lastError: 'Broker unavailable',
+      });
+      const [sent] = await findMessages();
+      expect(sent).toMatchObject({
+        status: 'SENT',
+        attempts: 2,
+        lastError: null,
+      });
+    });
+
+    test('should dead-letter messages after the last attempt', async () => {
+      // Given
+      publisher.failures = 2;
+      const onDeadLetter = jest.fn();
+      const relay = new OutboxRelay({
+        dataSource: testDataSource,
+        publisher,
+        retry: { maxAttempts: 2, initialDelay: 0 },
+        onDeadLetter,
+      });
+      await runInTransaction(testDataSource, async () => {
+        await publishToOutbox(testDataSource, { type: 'poison', payload: {} });
+      });
+
+      // When
+      await relay.processBatch();
+      await relay.processBatch();
+      const processedAfterDeadLetter = await relay.processBatch();
+
+      // Then
+      const [message] = await findMessages();
+      expect(message).toMatchObject({ status: 'DEAD', attempts: 2 });
+      expect(processedAfterDeadLetter).toBe(0);
+      expect(onDeadLetter).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'poison' }),
+        new Error('Broker unavailable'),
+      );
+    });
+
+    test('should poll until stopped', async () => {
+      // Given
+      await runInTransaction(testDataSource, async () => {
+        await publishToOutbox(testDataSource, { type: 'polled', payload: {} });
+      });
+      const relay = new OutboxRelay({
+        dataSource: testDataSource,
+        publisher,
+        pollInterval: 10,
+      });
+
+      // When
+      relay.start();
+      while (publisher.published.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      await relay.stop();
+
+      // Then
+      expect(publisher.published.map((message) => message.type)).toEqual([
+        'polled',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import type { DataSource, EntityManager } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { IllegalTransactionStateError } from '@/errors';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+class PropagationTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ propagation: 'SUPPORTS' })
+  async managerWithSupports(): Promise<EntityManager> {
+    return this.getManager();
+  }
+
+  @Transactional({ propagation: 'MANDATORY' })
+  async saveUserMandatory(userId: string): Promise<User> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    return await this.getRepository(User).save(user);
+  }
+
+  @Transactional({ propagation: 'NEVER' })
+  async managerWithNever(): Promise<EntityManager> {
+    return this.getManager();
+  }
+
+  @Transactional({ propagation: 'NOT_SUPPORTED' })
+  async managerWithNotSupported(): Promise<EntityManager> {
+    return this.getManager();
+  }
+
+  currentManager(): EntityManager {
+    return this.getManager();
+  }
+
+  @Transactional()
+  async runInRequired<T>(fn: () => Promise<T>): Promise<T> {
+    return await fn();
+  }
+}
+
+describe('@Transactional propagation modes', () => {
+  let dataSource: DataSource;
+  let service: PropagationTestService;
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    dataSource = testDataSource;
+    service = new PropagationTestService(dataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+  });
+
+  describe('SUPPORTS', () => {
+    test('should run without a transaction when none is active', async () => {
+      // Given
+      const transactionSpy = jest.spyOn(dataSource, 'transaction');
+
+      // When
+      const manager = await service.managerWithSupports();
+
+      // Then
+      expect(manager).toBe(dataSource.manager);
+      expect(transactionSpy).not.toHaveBeenCalled();
+    });
+
+    test('should join the active transaction', async () => {
+      // When
+      const [outer, inner] = await service.runInRequired(async () => [
+        service.currentManager(),
+        await service.managerWithSupports(),
+      ]);
+
+      // Then
+      expect(inner).toBe(outer);
+      expect(inner).not.toBe(dataSource.manager);
+    });
+  });
+
+  describe('MANDATORY', () => {
+    test('should throw IllegalTransactionStateError when no transaction is active', async () => {
+      // When & Then
+      await expect(
+        service.saveUserMandatory('mandatory-user'),
+      ).rejects.toBeInstanceOf(IllegalTransactionStateError);
+
+      const { userRepository } = getRepositories();
+      expect(
+        await userRepository.findOneBy({ userId: 'mandatory-user' }),
+      ).toBeNull();
+    });
+
+    test('should join the active transaction', async () => {
+      // When
+      await service.runInRequired(() =>
+        service.saveUserMandatory('mandatory-user'),
+      );
+
+      // Then
+      const { userRepository } = getRepositories();
+      expect(
+        await userRepository.findOneBy({ userId: 'mandatory-user' }),
+      ).not.toBeNull();
+    });
+  });
+
+  describe('NEVER', () => {
+    test('should run without a transaction when none is active', async () => {
+      // When
+      const manager = await service.managerWithNever();
+
+      // Then
+      expect(manager).toBe(dataSource.manager);
+    });
+
+    test('should throw IllegalTransactionStateError inside a transaction', async () => {
+      // When & Then
+      await expect(
+        service.runInRequired(() => service.managerWithNever()),
+      ).rejects.toThrow(/propagation 'NEVER'/);
+    });
+  });
+
+  describe('NOT_SUPPORTED', () => {
+    test('should suspend the active transaction for the duration of the call', async () => {
+      // When
+      const [outer, inner, resumed] = await service.runInRequired(async () => [
+        service.currentManager(),
+        await service.managerWithNotSupported(),
+        service.currentManager(),
+      ]);
+
+      // Then
+      expect(inner).toBe(dataSource.manager);
+      expect(outer).not.toBe(dataSource.manager);
+      expect(resumed).toBe(outer);
+    });
+  });
+});
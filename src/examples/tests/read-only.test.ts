@@ -0,0 +1,167 @@
+import type { DataSource, EntityManager } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { IllegalTransactionStateError, ReadOnlyTransactionError } from '@/errors';
+import { applyReadOnly } from '@/read-only';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+class ReadOnlyTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ readOnly: true })
+  async findUser(userId: string): Promise<User | null> {
+    return await this.getRepository(User).findOneBy({ userId });
+  }
+
+  @Transactional({ readOnly: true })
+  async saveUserReadOnly(userId: string): Promise<void> {
+    await this.saveUser(userId);
+  }
+
+  @Transactional({ readOnly: true })
+  async deleteUsersWithQueryBuilder(): Promise<void> {
+    await this.getManager()
+      .createQueryBuilder()
+      .delete()
+      .from(User)
+      .execute();
+  }
+
+  @Transactional({ readOnly: true })
+  async callReadWrite(userId: string): Promise<void> {
+    await this.saveUserReadWrite(userId);
+  }
+
+  @Transactional({ readOnly: true })
+  async callRequiresNew(userId: string): Promise<void> {
+    await this.saveUserRequiresNew(userId);
+  }
+
+  @Transactional({ readOnly: false })
+  async saveUserReadWrite(userId: string): Promise<void> {
+    await this.saveUser(userId);
+  }
+
+  @Transactional({ propagation: 'REQUIRES_NEW' })
+  async saveUserRequiresNew(userId: string): Promise<void> {
+    await this.saveUser(userId);
+  }
+
+  private async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+}
+
+describe('@Transactional readOnly option', () => {
+  let service: ReadOnlyTestService;
+
+  const findUser = (userId: string) =>
+    getRepositories().userRepository.findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new ReadOnlyTestService(testDataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+  });
+
+  test('should allow reads', async () => {
+    // Given
+    await getRepositories().userRepository.save({
+      userId: 'read-user',
+      name: 'Read User',
+    });
+
+    // When
+    const user = await service.findUser('read-user');
+
+    // Then
+    expect(user?.name).toBe('Read User');
+  });
+
+  test('should reject inserts through the transactional manager', async () => {
+    // When & Then
+    await expect(
+      service.saveUserReadOnly('read-only-user'),
+    ).rejects.toThrow(
+      new ReadOnlyTransactionError(
+        'Cannot insert inside a read-only transaction.',
+      ),
+    );
+
+    expect(await findUser('read-only-user')).toBeNull();
+  });
+
+  test('should reject query builder deletes', async () => {
+    // Given
+    await getRepositories().userRepository.save({
+      userId: 'read-user',
+      name: 'Read User',
+    });
+
+    // When & Then
+    await expect(
+      service.deleteUsersWithQueryBuilder(),
+    ).rejects.toBeInstanceOf(ReadOnlyTransactionError);
+
+    expect(await findUser('read-user')).not.toBeNull();
+  });
+
+  test('should fail fast when a read-write call joins a read-only transaction', async () => {
+    // When & Then
+    await expect(service.callReadWrite('read-only-user')).rejects.toThrow(
+      new IllegalTransactionStateError(
+        'ReadOnlyTestService.saveUserReadWrite requires a read-write transaction but the existing transaction is read-only.',
+      ),
+    );
+  });
+
+  test('should allow writes in a REQUIRES_NEW transaction started from a read-only one', async () => {
+    // When
+    await service.callRequiresNew('requires-new-user');
+
+    // Then
+    expect(await findUser('requires-new-user')).not.toBeNull();
+  });
+
+  test('should allow writes outside read-only transactions', async () => {
+    // When
+    await service.saveUserReadWrite('read-write-user');
+
+    // Then
+    expect(await findUser('read-write-user')).not.toBeNull();
+  });
+
+  describe('native read-only mode', () => {
+    test.each([
+      ['postgres', [['SET TRANSACTION READ ONLY']]],
+      ['cockroachdb', [['SET TRANSACTION READ ONLY']]],
+      ['sqlite', []],
+    ])('%s should issue %j', async (type, expected) => {
+      const manager = {
+        connection: { options: { type } },
+        query: jest.fn(),
+      } as unknown as EntityManager & { query: jest.Mock };
+
+      await applyReadOnly(manager);
+
+      expect(manager.query.mock.calls).toEqual(expected);
+    });
+  });
+});
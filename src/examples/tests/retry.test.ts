@@ -0,0 +1,168 @@
+import type { DataSource } from 'typeorm';
+import { QueryFailedError } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import {
+  isMysqlRetryableError,
+  isPostgresRetryableError,
+  isSqliteRetryableError,
+} from '@/retry';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+function sqliteBusyError(): QueryFailedError {
+  return new QueryFailedError(
+    'INSERT INTO user',
+    [],
+    Object.assign(new Error('SQLITE_BUSY: database is locked'), {
+      code: 'SQLITE_BUSY',
+    }),
+  );
+}
+
+class RetryTestService extends BaseTransactionalService {
+  attempts = 0;
+
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ retry: { maxAttempts: 3, initialDelay: 1 } })
+  async saveUserFailingTimes(userId: string, failures: number): Promise<void> {
+    await this.saveUserWithAttempt(userId, failures);
+  }
+
+  @Transactional({ retry: { maxAttempts: 3, initialDelay: 1 } })
+  async saveUserWithError(userId: string, error: Error): Promise<void> {
+    this.attempts++;
+    await this.saveUser(userId);
+    throw error;
+  }
+
+  @Transactional()
+  async outerWithoutRetry(userId: string, failures: number): Promise<void> {
+    await this.saveUserFailingTimes(userId, failures);
+  }
+
+  @Transactional({ retry: { maxAttempts: 3, initialDelay: 1 } })
+  async outerWithRetry(userId: string, failures: number): Promise<void> {
+    await this.saveUserFailingTimes(userId, failures);
+  }
+
+  private async saveUserWithAttempt(
+    userId: string,
+    failures: number,
+  ): Promise<void> {
+    this.attempts++;
+    await this.saveUser(`${userId}-${this.attempts}`);
+    if (this.attempts <= failures) {
+      throw sqliteBusyError();
+    }
+  }
+
+  private async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+}
+
+describe('@Transactional retry option', () => {
+  let dataSource: DataSource;
+  let service: RetryTestService;
+
+  const findUserIds = async () =>
+    (await getRepositories().userRepository.find()).map((user) => user.userId);
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    dataSource = testDataSource;
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+    service = new RetryTestService(dataSource);
+  });
+
+  test('should re-run the whole method on a fresh transaction until it succeeds', async () => {
+    // Given
+    const transactionSpy = jest.spyOn(dataSource, 'transaction');
+
+    // When
+    await service.saveUserFailingTimes('retry-user', 2);
+
+    // Then
+    expect(service.attempts).toBe(3);
+    expect(transactionSpy.mock.calls.length).toEqual(3);
+    // Failed attempts were rolled back
+    expect(await findUserIds()).toEqual(['retry-user-3']);
+  });
+
+  test('should rethrow the last error once maxAttempts is reached', async () => {
+    // When & Then
+    await expect(
+      service.saveUserFailingTimes('retry-user', 5),
+    ).rejects.toBeInstanceOf(QueryFailedError);
+
+    expect(service.attempts).toBe(3);
+    expect(await findUserIds()).toEqual([]);
+  });
+
+  test('should not retry errors rejected by the classifier', async () => {
+    // When & Then
+    await expect(
+      service.saveUserWithError('retry-user', new Error('Validation failed')),
+    ).rejects.toThrow('Validation failed');
+
+    expect(service.attempts).toBe(1);
+  });
+
+  test('should not retry inside a joined REQUIRED call', async () => {
+    // When & Then
+    await expect(
+      service.outerWithoutRetry('retry-user', 1),
+    ).rejects.toBeInstanceOf(QueryFailedError);
+
+    expect(service.attempts).toBe(1);
+  });
+
+  test('should retry at the outermost boundary that owns the transaction', async () => {
+    // When
+    await service.outerWithRetry('retry-user', 1);
+
+    // Then
+    expect(service.attempts).toBe(2);
+    expect(await findUserIds()).toEqual(['retry-user-2']);
+  });
+
+  describe('built-in classifiers', () => {
+    test.each([
+      [isPostgresRetryableError, { code: '40001' }, true],
+      [isPostgresRetryableError, { code: '40P01' }, true],
+      [isPostgresRetryableError, { code: '23505' }, false],
+      [isMysqlRetryableError, { code: 'ER_LOCK_DEADLOCK' }, true],
+      [isMysqlRetryableError, { code: 'ER_LOCK_WAIT_TIMEOUT' }, true],
+      [isMysqlRetryableError, { errno: 1213 }, true],
+      [isMysqlRetryableError, { code: 'ER_DUP_ENTRY' }, false],
+      [isSqliteRetryableError, { code: 'SQLITE_BUSY' }, true],
+      [isSqliteRetryableError, { code: 'SQLITE_CONSTRAINT' }, false],
+    ])('%p should classify %j as %p', (classifier, driverError, expected) => {
+      expect(classifier(driverError)).toBe(expected);
+      const wrapped = new QueryFailedError(
+        'SELECT 1',
+        [],
+        Object.assign(new Error('Driver error'), driverError),
+      );
+      expect(classifier(wrapped)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { runAfterCommit } from '@/hooks';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+class ValidationWarning extends Error {}
+
+class CriticalValidationWarning extends ValidationWarning {}
+
+class AlreadyProcessedError extends Error {
+  readonly code = 'ALREADY_PROCESSED';
+}
+
+class RollbackRuleTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({
+    noRollbackFor: [
+      ValidationWarning,
+      (error) => (error as { code?: string }).code === 'ALREADY_PROCESSED',
+    ],
+    rollbackFor: [CriticalValidationWarning],
+  })
+  async saveUserAndFail(userId: string, error: Error): Promise<void> {
+    await this.saveUser(userId);
+    throw error;
+  }
+
+  @Transactional({ noRollbackFor: [ValidationWarning] })
+  async registerAfterCommitAndFail(
+    afterCommit: () => void,
+    error: Error,
+  ): Promise<void> {
+    runAfterCommit(this.dataSource, afterCommit);
+    throw error;
+  }
+
+  @Transactional()
+  async saveUsersWithNestedFailure(
+    userId: string,
+    nestedUserId: string,
+    error: Error,
+  ): Promise<void> {
+    await this.saveUser(userId);
+    try {
+      await this.saveUserNestedAndFail(nestedUserId, error);
+    } catch {
+      // The outer transaction keeps going
+    }
+  }
+
+  @Transactional({
+    propagation: 'NESTED',
+    noRollbackFor: [ValidationWarning],
+  })
+  async saveUserNestedAndFail(userId: string, error: Error): Promise<void> {
+    await this.saveUser(userId);
+    throw error;
+  }
+
+  private async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+}
+
+describe('@Transactional rollbackFor / noRollbackFor rules', () => {
+  let dataSource: DataSource;
+  let service: RollbackRuleTestService;
+
+  const findUser = (userId: string) =>
+    getRepositories().userRepository.findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    dataSource = testDataSource;
+    service = new RollbackRuleTestService(dataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+  });
+
+  test('should roll back on errors without a matching rule', async () => {
+    // When & Then
+    await expect(
+      service.saveUserAndFail('rule-user', new Error('Unexpected failure')),
+    ).rejects.toThrow('Unexpected failure');
+
+    expect(await findUser('rule-user')).toBeNull();
+  });
+
+  test('should commit and rethrow the original error for noRollbackFor classes', async () => {
+    // Given
+    const warning = new ValidationWarning('Name looks suspicious');
+
+    // When & Then
+    await expect(
+      service.saveUserAndFail('rule-user', warning),
+    ).rejects.toBe(warning);
+
+    expect(await findUser('rule-user')).not.toBeNull();
+  });
+
+  test('should commit for noRollbackFor predicates', async () => {
+    // When & Then
+    await expect(
+      service.saveUserAndFail('rule-user', new AlreadyProcessedError()),
+    ).rejects.toBeInstanceOf(AlreadyProcessedError);
+
+    expect(await findUser('rule-user')).not.toBeNull();
+  });
+
+  test('should let rollbackFor take precedence over noRollbackFor', async () => {
+    // When & Then
+    await expect(
+      service.saveUserAndFail('rule-user', new CriticalValidationWarning()),
+    ).rejects.toBeInstanceOf(CriticalValidationWarning);
+
+    expect(await findUser('rule-user')).toBeNull();
+  });
+
+  test('should run afterCommit hooks before rethrowing a noRollbackFor error', async () => {
+    // Given
+    const afterCommit = jest.fn();
+
+    // When & Then
+    await expect(
+      service.registerAfterCommitAndFail(afterCommit, new ValidationWarning()),
+    ).rejects.toBeInstanceOf(ValidationWarning);
+
+    expect(afterCommit).toHaveBeenCalledTimes(1);
+  });
+
+  test('should release the savepoint for noRollbackFor errors in NESTED calls', async () => {
+    // When
+    await service.saveUsersWithNestedFailure(
+      'outer-user',
+      'nested-user',
+      new ValidationWarning(),
+    );
+
+    // Then
+    expect(await findUser('outer-user')).not.toBeNull();
+    expect(await findUser('nested-user')).not.toBeNull();
+  });
+
+  test('should roll back to the savepoint for other errors in NESTED calls', async () => {
+    // When
+    await service.saveUsersWithNestedFailure(
+      'outer-user',
+      'nested-user',
+      new Error('Bad row'),
+    );
+
+    // Then
+    expect(await findUser('outer-user')).not.toBeNull();
+    expect(await findUser('nested-user')).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import type { DataSource, Repository } from 'typeorm';
+import { getCurrentTransactionManager } from '@/context';
+import { runInTransaction, wrapInTransaction } from '@/run-in-transaction';
+import type { Organization } from '../entity/organization.model';
+import { User } from '../entity/user.model';
+import type { OrganizationService } from '../service/organization.service';
+import type { UserService } from '../service/user.service';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+  getServices,
+} from './config/test-utils';
+
+describe('Programmatic transaction API', () => {
+  let dataSource: DataSource;
+  let organizationRepository: Repository<Organization>;
+  let userRepository: Repository<User>;
+  let organizationService: OrganizationService;
+  let userService: UserService;
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    dataSource = testDataSource;
+
+    const repositories = getRepositories();
+    const services = getServices();
+
+    organizationRepository = repositories.organizationRepository;
+    userRepository = repositories.userRepository;
+    organizationService = services.organizationService;
+    userService = services.userService;
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+  });
+
+  describe('runInTransaction', () => {
+    test('should pass the transactional manager and expose it through the context', async () => {
+      // When
+      const [manager, current] = await runInTransaction(
+        dataSource,
+        async (manager) => [manager, getCurrentTransactionManager(dataSource)],
+      );
+
+      // Then
+      expect(manager).toBe(current);
+      expect(manager).not.toBe(dataSource.manager);
+      expect(manager.queryRunner?.isTransactionActive).toBe(false);
+    });
+
+    test('should let @Transactional service methods join the transaction', async () => {
+      // Given
+      const transactionSpy = jest.spyOn(dataSource, 'transaction');
+
+      // When
+      await runInTransaction(dataSource, async () => {
+        await organizationService.createOrganization({
+          organizationId: 'script-org',
+          isEnterprise: false,
+        });
+        await userService.createUser({
+          userId: 'script-user',
+          name: 'Script User',
+        });
+      });
+
+      // Then
+      expect(transactionSpy.mock.calls.length).toEqual(1);
+      expect(
+        await organizationRepository.findOneBy({ organizationId: 'script-org' }),
+      ).not.toBeNull();
+      expect(
+        await userRepository.findOneBy({ userId: 'script-user' }),
+      ).not.toBeNull();
+    });
+
+    test('should roll back service calls when the function fails', async () => {
+      // When & Then
+      await expect(
+        runInTransaction(dataSource, async () => {
+          await organizationService.createOrganization({
+            organizationId: 'script-org',
+            isEnterprise: false,
+          });
+          throw new Error('Migration step failed');
+        }),
+      ).rejects.toThrow('Migration step failed');
+
+      expect(
+        await organizationRepository.findOneBy({ organizationId: 'script-org' }),
+      ).toBeNull();
+    });
+
+    test('should apply propagation options', async () => {
+      // Given
+      const transactionSpy = jest.spyOn(dataSource, 'transaction');
+
+      // When
+      await runInTransaction(dataSource, async (outer) => {
+        await runInTransaction(
+          dataSource,
+          async (inner) => {
+            expect(inner).not.toBe(outer);
+          },
+          { propagation: 'REQUIRES_NEW' },
+        );
+      });
+
+      // Then
+      expect(transactionSpy.mock.calls.length).toEqual(2);
+    });
+  });
+
+  describe('wrapInTransaction', () => {
+    test('should run every call of the wrapped function in a transaction', async () => {
+      // Given
+      const importUser = wrapInTransaction(
+        dataSource,
+        async (userId: string, fail: boolean) => {
+          const manager = getCurrentTransactionManager(dataSource);
+          await manager?.getRepository(User).save({ userId, name: userId });
+          if (fail) {
+            throw new Error('Import failed');
+          }
+          return userId;
+        },
+      );
+
+      // When
+      await expect(importUser('imported-user', false)).resolves.toBe(
+        'imported-user',
+      );
+      await expect(importUser('failed-user', true)).rejects.toThrow(
+        'Import failed',
+      );
+
+      // Then
+      expect(
+        await userRepository.findOneBy({ userId: 'imported-user' }),
+      ).not.toBeNull();
+      expect(
+        await userRepository.findOneBy({ userId: 'failed-user' }),
+      ).toBeNull();
+    });
+  });
+});
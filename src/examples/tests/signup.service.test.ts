@@ -224,4 +224,67 @@ describe('@Transactional decorator nested test using existing services', () => {
       transactionSpy.mockRestore();
     });
   });
+
+  describe('SignupService NESTED tests', () => {
+    test('should roll back only the savepoint when the nested call fails (REQUIRED + NESTED)', async () => {
+      // Given
+      const transactionSpy = jest.spyOn(dataSource, 'transaction');
+      const signupData = {
+        organizationId: 'test-org-nested-fail',
+        userId: 'test-user-nested-fail',
+        userName: 'Test User NESTED',
+      };
+
+      // createUser joins the savepoint, writes the user and then fails
+      const originalCreateUser = userService.createUser;
+      jest
+        .spyOn(userService, 'createUser')
+        .mockImplementation(async (userData) => {
+          await originalCreateUser.call(userService, userData);
+          throw new Error('User creation failed after insert');
+        });
+
+      // When
+      const result =
+        await signupService.signupWithNestedTransaction(signupData);
+
+      // Then
+      expect(result.user).toBeNull();
+
+      const org = await organizationRepository.findOneBy({
+        organizationId: signupData.organizationId,
+      });
+      const user = await userRepository.findOneBy({
+        userId: signupData.userId,
+      });
+
+      expect(org).not.toBeNull(); // Outer transaction committed
+      expect(user).toBeNull(); // Savepoint rolled back
+
+      // NESTED reuses the outer transaction instead of opening a new one
+      expect(transactionSpy.mock.calls.length).toEqual(1);
+      transactionSpy.mockRestore();
+    });
+
+    test('should commit nested work together with the outer transaction (REQUIRED + NESTED)', async () => {
+      // Given
+      const signupData = {
+        organizationId: 'test-org-nested-success',
+        userId: 'test-user-nested-success',
+        userName: 'Test User NESTED Success',
+      };
+
+      // When
+      const result =
+        await signupService.signupWithNestedTransaction(signupData);
+
+      // Then
+      expect(result.user?.userId).toBe(signupData.userId);
+
+      const user = await userRepository.findOneBy({
+        userId: signupData.userId,
+      });
+      expect(user).not.toBeNull();
+    });
+  });
 });
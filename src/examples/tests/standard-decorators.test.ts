@@ -0,0 +1,144 @@
+import { DataSource } from 'typeorm';
+import { getCurrentTransactionManager } from '@/context';
+import { NonTransactional, Transactional } from '@/decorators/transactional';
+import { getCurrentTransactionStatus } from '@/transaction-status';
+
+// Compiled without experimentalDecorators (see config/tsconfig.standard-decorators.json), so the
+// decorators run through TypeScript's own standard decorator output. The shared test DataSource
+// is not used because its entities need experimentalDecorators.
+const dataSource = new DataSource({ type: 'sqlite', database: ':memory:' });
+
+class StandardDecoratorService {
+  constructor(readonly dataSource?: DataSource) {}
+
+  @Transactional()
+  async saveUsers(userIds: string[], fail = false): Promise<void> {
+    for (const userId of userIds) {
+      await getCurrentTransactionManager(dataSource)?.query(
+        'INSERT INTO users (user_id) VALUES (?)',
+        [userId],
+      );
+    }
+    if (fail) {
+      throw new Error('Save failed');
+    }
+  }
+}
+
+@Transactional({ isolation: 'SERIALIZABLE' })
+class StandardClassService {
+  constructor(readonly dataSource: DataSource) {}
+
+  static async isStaticInTransaction(): Promise<boolean> {
+    return getCurrentTransactionStatus(dataSource) !== null;
+  }
+
+  async getIsolation(): Promise<string | undefined> {
+    return getCurrentTransactionStatus(this.dataSource)?.isolation;
+  }
+
+  @Transactional({ readOnly: true })
+  async getReadOnly(): Promise<boolean | undefined> {
+    return getCurrentTransactionStatus(this.dataSource)?.readOnly;
+  }
+
+  @NonTransactional()
+  async isInTransaction(): Promise<boolean> {
+    return getCurrentTransactionStatus(this.dataSource) !== null;
+  }
+
+  // Sync helpers need no decorator
+  countUsers(userIds: string[]): number {
+    return userIds.length;
+  }
+}
+
+describe('Standard decorators', () => {
+  const findUserIds = async () =>
+    (
+      (await dataSource.query('SELECT user_id FROM users')) as {
+        user_id: string;
+      }[]
+    ).map((row) => row.user_id);
+
+  beforeAll(async () => {
+    await dataSource.initialize();
+    await dataSource.query('CREATE TABLE users (user_id varchar PRIMARY KEY)');
+  });
+
+  afterAll(async () => {
+    await dataSource.destroy();
+  });
+
+  beforeEach(async () => {
+    await dataSource.query('DELETE FROM users');
+  });
+
+  test('should run a decorated method in a transaction', async () => {
+    // Given
+    const service = new StandardDecoratorService(dataSource);
+
+    // When
+    await expect(service.saveUsers(['first', 'second'], true)).rejects.toThrow(
+      'Save failed',
+    );
+    await service.saveUsers(['third']);
+
+    // Then
+    expect(await findUserIds()).toEqual(['third']);
+  });
+
+  test('should name the class in errors', async () => {
+    // Given
+    const service = new StandardDecoratorService();
+
+    // When / Then
+    await expect(service.saveUsers([])).rejects.toThrow(
+      'DataSource not found in StandardDecoratorService.',
+    );
+  });
+
+  test('should apply class options with method-level overrides and opt-outs', async () => {
+    // Given
+    const service = new StandardClassService(dataSource);
+
+    // When / Then
+    expect(await service.getIsolation()).toBe('SERIALIZABLE');
+    expect(await service.getReadOnly()).toBe(true);
+    expect(await service.isInTransaction()).toBe(false);
+    expect(service.countUsers(['a', 'b'])).toBe(2);
+  });
+
+  test('should leave static methods alone', async () => {
+    // When / Then
+    expect(await StandardClassService.isStaticInTransaction()).toBe(false);
+  });
+
+  test('should reject methods returning a Promise without async', () => {
+    // When / Then
+    expect(() => {
+      class PromiseService {
+        @Transactional()
+        load(): Promise<string> {
+          return Promise.resolve('loaded');
+        }
+      }
+      return PromiseService;
+    }).toThrow(
+      "@Transactional cannot tell whether method 'load' returns a Promise: it is not a native async function",
+    );
+  });
+
+  test('should reject members other than methods', () => {
+    // When / Then
+    expect(() => {
+      class FieldService {
+        @Transactional()
+        repository = undefined;
+      }
+      return FieldService;
+    }).toThrow(
+      "@Transactional cannot decorate the field 'repository', only classes and methods.",
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { IllegalTransactionStateError } from '@/errors';
+import { runAfterCommit } from '@/hooks';
+import {
+  beginTestTransaction,
+  rollbackTestTransaction,
+  useTestTransactions,
+} from '@/testing';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+class TestingTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional()
+  async saveUser(userId: string, onCommit?: () => void): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+
+    if (onCommit) {
+      runAfterCommit(this.dataSource, onCommit);
+    }
+  }
+
+  @Transactional()
+  async saveUserAndFail(userId: string): Promise<void> {
+    await this.saveUser(userId);
+    throw new Error('Save failed');
+  }
+
+  @Transactional({ propagation: 'REQUIRES_NEW' })
+  async saveUserAndFailRequiresNew(userId: string): Promise<void> {
+    await this.saveUserAndFail(userId);
+  }
+
+  @Transactional()
+  async saveUserWithFailingInner(
+    outerUserId: string,
+    innerUserId: string,
+  ): Promise<void> {
+    await this.saveUser(outerUserId);
+    await this.saveUserAndFailRequiresNew(innerUserId).catch(() => {});
+  }
+}
+
+describe('Testing harness', () => {
+  let service: TestingTestService;
+
+  const findUser = (userId: string) =>
+    getRepositories().userRepository.findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    await clearAllTestData();
+    service = new TestingTestService(testDataSource);
+  });
+
+  describe('useTestTransactions', () => {
+    useTestTransactions(testDataSource);
+
+    test('should see data written by transactional calls during the test', async () => {
+      // Given
+      const transactionSpy = jest.spyOn(testDataSource, 'transaction');
+
+      // When
+      await service.saveUser('test-harness-user');
+
+      // Then
+      expect(await findUser('test-harness-user')).not.toBeNull();
+      // Boundaries run as savepoints of the test transaction
+      expect(transactionSpy).not.toHaveBeenCalled();
+      transactionSpy.mockRestore();
+    });
+
+    test('should roll back the previous test', async () => {
+      // Then
+      expect(await findUser('test-harness-user')).toBeNull();
+    });
+
+    test('should roll back a failing boundary to its savepoint', async () => {
+      // Given
+      await service.saveUser('kept');
+
+      // When
+      await expect(service.saveUserAndFail('discarded')).rejects.toThrow(
+        'Save failed',
+      );
+
+      // Then
+      expect(await findUser('kept')).not.toBeNull();
+      expect(await findUser('discarded')).toBeNull();
+    });
+
+    test('should turn REQUIRES_NEW into a savepoint', async () => {
+      // When
+      await service.saveUserWithFailingInner('outer', 'inner');
+
+      // Then
+      expect(await findUser('outer')).not.toBeNull();
+      expect(await findUser('inner')).toBeNull();
+    });
+
+    test('should run afterCommit hooks when the boundary completes', async () => {
+      // Given
+      const onCommit = jest.fn();
+
+      // When
+      await service.saveUser('hooked', onCommit);
+
+      // Then
+      expect(onCommit).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject a second test transaction on the same DataSource', async () => {
+      // When / Then
+      await expect(beginTestTransaction(testDataSource)).rejects.toThrow(
+        IllegalTransactionStateError,
+      );
+    });
+  });
+
+  describe('beginTestTransaction / rollbackTestTransaction', () => {
+    test('should roll back every active test transaction when called without a DataSource', async () => {
+      // Given
+      const manager = await beginTestTransaction(testDataSource);
+      await service.saveUser('manual');
+      expect(await manager.findOneBy(User, { userId: 'manual' })).not.toBeNull();
+
+      // When
+      await rollbackTestTransaction();
+
+      // Then
+      expect(await findUser('manual')).toBeNull();
+    });
+
+    test('should unwind savepoints left open by an unfinished test', async () => {
+      // Given
+      const manager = await beginTestTransaction(testDataSource);
+      await manager.queryRunner?.startTransaction();
+      await service.saveUser('unfinished');
+
+      // When
+      await rollbackTestTransaction(testDataSource);
+
+      // Then
+      expect(await findUser('unfinished')).toBeNull();
+      expect(manager.queryRunner?.isTransactionActive).toBe(false);
+    });
+  });
+});
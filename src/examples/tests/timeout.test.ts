@@ -0,0 +1,193 @@
+import type { DataSource, EntityManager } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { TransactionTimeoutError } from '@/errors';
+import { runInTransaction } from '@/run-in-transaction';
+import { applyStatementTimeout, resetStatementTimeout } from '@/timeout';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+  getRepositories,
+} from './config/test-utils';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class TimeoutTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ timeout: 50 })
+  async saveUserAndStall(userId: string, stall: number): Promise<void> {
+    await this.saveUser(userId);
+    await sleep(stall);
+  }
+
+  @Transactional({ timeout: 50, noRollbackFor: [Error] })
+  async stallWithNoRollbackFor(userId: string): Promise<void> {
+    await this.saveUser(userId);
+    await sleep(150);
+  }
+
+  @Transactional({ timeout: 50 })
+  async outerWithTimeout(stall: number): Promise<void> {
+    await this.joinedWithLongTimeout(stall);
+  }
+
+  @Transactional({ timeout: 10_000 })
+  async joinedWithLongTimeout(stall: number): Promise<void> {
+    await sleep(stall);
+  }
+
+  @Transactional()
+  async outerWithoutTimeout(stall: number): Promise<void> {
+    await this.joinedWithShortTimeout(stall);
+  }
+
+  @Transactional({ timeout: 10 })
+  async joinedWithShortTimeout(stall: number): Promise<void> {
+    await sleep(stall);
+  }
+
+  private async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+}
+
+describe('@Transactional timeout option', () => {
+  let service: TimeoutTestService;
+
+  const findUser = (userId: string) =>
+    getRepositories().userRepository.findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new TimeoutTestService(testDataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    jest.restoreAllMocks();
+  });
+
+  test('should commit when the method finishes before the deadline', async () => {
+    // When
+    await service.saveUserAndStall('timeout-user', 0);
+
+    // Then
+    expect(await findUser('timeout-user')).not.toBeNull();
+  });
+
+  test('should roll back and throw TransactionTimeoutError after the deadline', async () => {
+    // When & Then
+    const error = await service
+      .saveUserAndStall('timeout-user', 150)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+    expect(error.message).toBe(
+      'Transaction for TimeoutTestService.saveUserAndStall timed out after 50ms.',
+    );
+    expect(await findUser('timeout-user')).toBeNull();
+
+    // Let the abandoned call settle before the next test
+    await sleep(150);
+  });
+
+  test('should reject writes the abandoned call makes after the deadline', async () => {
+    // Given
+    let lateWrite: Promise<unknown> | undefined;
+    const saveUser = (manager: EntityManager, userId: string) =>
+      manager.save(User, { userId, name: userId });
+
+    // When
+    const result = runInTransaction(
+      testDataSource,
+      async (manager) => {
+        await saveUser(manager, 'before-deadline');
+        await sleep(150);
+        lateWrite = saveUser(manager, 'after-deadline');
+        await lateWrite;
+      },
+      { timeout: 50 },
+    );
+
+    // Then
+    await expect(result).rejects.toBeInstanceOf(TransactionTimeoutError);
+    await sleep(200);
+    await expect(lateWrite).rejects.toBeInstanceOf(TransactionTimeoutError);
+    expect(await findUser('before-deadline')).toBeNull();
+    expect(await findUser('after-deadline')).toBeNull();
+  });
+
+  test('should roll back on timeout even when noRollbackFor matches', async () => {
+    // When & Then
+    await expect(
+      service.stallWithNoRollbackFor('timeout-user'),
+    ).rejects.toBeInstanceOf(TransactionTimeoutError);
+
+    expect(await findUser('timeout-user')).toBeNull();
+    await sleep(150);
+  });
+
+  test('should keep the outer deadline for joined calls with their own timeout', async () => {
+    // When & Then
+    await expect(service.outerWithTimeout(150)).rejects.toThrow(
+      'Transaction for TimeoutTestService.outerWithTimeout timed out after 50ms.',
+    );
+    await sleep(150);
+  });
+
+  test('should not start a clock for joined calls', async () => {
+    // When & Then
+    await expect(service.outerWithoutTimeout(30)).resolves.toBeUndefined();
+  });
+
+  describe('statement timeouts', () => {
+    const managerFor = (type: string) =>
+      ({
+        connection: { options: { type } },
+        query: jest.fn(),
+      }) as unknown as EntityManager & { query: jest.Mock };
+
+    test('should use SET LOCAL statement_timeout on Postgres', async () => {
+      const manager = managerFor('postgres');
+
+      const previous = await applyStatementTimeout(manager, 1500);
+      await resetStatementTimeout(manager, previous);
+
+      expect(manager.query.mock.calls).toEqual([
+        ['SET LOCAL statement_timeout = 1500'],
+      ]);
+    });
+
+    test('should set max_execution_time on MySQL and restore the previous value', async () => {
+      const manager = managerFor('mysql');
+      manager.query.mockResolvedValueOnce([{ previous: '250' }]);
+
+      const previous = await applyStatementTimeout(manager, 1500);
+      await resetStatementTimeout(manager, previous);
+
+      expect(manager.query.mock.calls).toEqual([
+        ['SELECT @@SESSION.max_execution_time AS previous'],
+        ['SET SESSION max_execution_time = 1500'],
+        ['SET SESSION max_execution_time = 250'],
+      ]);
+    });
+
+    test('should skip drivers without statement timeouts', async () => {
+      const manager = managerFor('sqlite');
+
+      await applyStatementTimeout(manager, 1500);
+
+      expect(manager.query).not.toHaveBeenCalled();
+    });
+  });
+});
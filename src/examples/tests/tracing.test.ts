@@ -0,0 +1,229 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { DataSource } from 'typeorm';
+import {
+  registerDataSource,
+  unregisterDataSource,
+} from '@/data-source-registry';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import {
+  setTransactionTracer,
+  type TransactionSpan,
+  type TransactionTracer,
+} from '@/tracing';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+interface RecordedSpan {
+  name: string;
+  parent?: RecordedSpan;
+  attributes: Record<string, unknown>;
+  events: { name: string; attributes?: Record<string, unknown> }[];
+  exceptions: unknown[];
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+// In-memory exporter keeping the active span like the OpenTelemetry context manager
+class InMemoryTracer implements TransactionTracer {
+  readonly spans: RecordedSpan[] = [];
+  private readonly active = new AsyncLocalStorage<RecordedSpan>();
+
+  startActiveSpan<F extends (span: TransactionSpan) => unknown>(
+    name: string,
+    options: { attributes?: Record<string, string | number | boolean> },
+    fn: F,
+  ): ReturnType<F> {
+    const recorded: RecordedSpan = {
+      name,
+      parent: this.active.getStore(),
+      attributes: { ...options.attributes },
+      events: [],
+      exceptions: [],
+      ended: false,
+    };
+    this.spans.push(recorded);
+
+    const span: TransactionSpan = {
+      setAttribute: (key, value) => {
+        recorded.attributes[key] = value;
+      },
+      addEvent: (eventName, attributes) => {
+        recorded.events.push({ name: eventName, attributes });
+      },
+      recordException: (exception) => {
+        recorded.exceptions.push(exception);
+      },
+      setStatus: (status) => {
+        recorded.status = status;
+      },
+      end: () => {
+        recorded.ended = true;
+      },
+    };
+    return this.active.run(recorded, () => fn(span)) as ReturnType<F>;
+  }
+
+  find(name: string): RecordedSpan | undefined {
+    return this.spans.find((span) => span.name === name);
+  }
+}
+
+class TracingTestService extends BaseTransactionalService {
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ isolation: 'SERIALIZABLE' })
+  async outer(inner?: () => Promise<void>): Promise<void> {
+    if (inner) {
+      await inner();
+    }
+  }
+
+  @Transactional()
+  async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+
+  @Transactional({ propagation: 'NESTED' })
+  async nestedFailing(): Promise<void> {
+    throw new Error('Nested failed');
+  }
+
+  @Transactional()
+  async fail(): Promise<void> {
+    throw new Error('Failed');
+  }
+}
+
+describe('Transaction tracing', () => {
+  let service: TracingTestService;
+  let tracer: InMemoryTracer;
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+    service = new TracingTestService(testDataSource);
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    tracer = new InMemoryTracer();
+    setTransactionTracer(tracer);
+  });
+
+  afterEach(() => {
+    setTransactionTracer();
+  });
+
+  test('should open a span for the owned transaction and a child span for joined calls', async () => {
+    // When
+    await service.outer(() => service.saveUser('traced'));
+
+    // Then
+    const transaction = tracer.find('transaction TracingTestService.outer');
+    const join = tracer.find('join TracingTestService.saveUser');
+    expect(transaction).toBeDefined();
+    expect(join?.parent).toBe(transaction);
+    expect(transaction?.attributes).toEqual({
+      'db.system': 'sqlite',
+      'db.name': ':memory:',
+      'code.namespace': 'TracingTestService',
+      'code.function': 'outer',
+      'transaction.kind': 'TRANSACTION',
+      'transaction.propagation': 'REQUIRED',
+      'transaction.isolation': 'SERIALIZABLE',
+      'transaction.read_only': false,
+      'transaction.outcome': 'COMMITTED',
+    });
+    expect(transaction?.status).toEqual({ code: 1 });
+    expect(tracer.spans.every((span) => span.ended)).toBe(true);
+  });
+
+  test('should mark a rolled back transaction with the error', async () => {
+    // When
+    await expect(service.fail()).rejects.toThrow('Failed');
+
+    // Then
+    const transaction = tracer.find('transaction TracingTestService.fail');
+    expect(transaction?.attributes['transaction.outcome']).toBe('ROLLED_BACK');
+    expect(transaction?.status).toEqual({ code: 2, message: 'Failed' });
+    expect(transaction?.exceptions).toEqual([new Error('Failed')]);
+  });
+
+  test('should open a span for savepoints', async () => {
+    // When
+    await service.outer(() => service.nestedFailing().catch(() => {}));
+
+    // Then
+    const savepoint = tracer.find('savepoint TracingTestService.nestedFailing');
+    expect(savepoint?.parent).toBe(
+      tracer.find('transaction TracingTestService.outer'),
+    );
+    expect(savepoint?.attributes['transaction.outcome']).toBe('ROLLED_BACK');
+    expect(
+      tracer.find('transaction TracingTestService.outer')?.attributes[
+        'transaction.outcome'
+      ],
+    ).toBe('COMMITTED');
+  });
+
+  test('should record joined calls as events when configured', async () => {
+    // Given
+    setTransactionTracer(tracer, { joinedCalls: 'event' });
+
+    // When
+    await service.outer(() => service.saveUser('traced-event'));
+
+    // Then
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      'transaction TracingTestService.outer',
+    ]);
+    expect(tracer.spans[0].events).toEqual([
+      {
+        name: 'transaction.join',
+        attributes: expect.objectContaining({
+          'code.function': 'saveUser',
+          'transaction.kind': 'JOIN',
+        }),
+      },
+    ]);
+  });
+
+  test('should name the DataSource it was registered under', async () => {
+    // Given
+    registerDataSource('reporting', testDataSource);
+
+    // When
+    try {
+      await service.saveUser('named');
+    } finally {
+      unregisterDataSource('reporting', testDataSource);
+    }
+
+    // Then
+    expect(tracer.spans[0].attributes['transaction.data_source']).toBe(
+      'reporting',
+    );
+  });
+
+  test('should not trace when no tracer is set', async () => {
+    // Given
+    setTransactionTracer();
+
+    // When
+    await service.saveUser('untraced');
+
+    // Then
+    expect(tracer.spans).toHaveLength(0);
+  });
+});
@@ -0,0 +1,197 @@
+import type { DataSource } from 'typeorm';
+import {
+  BaseTransactionalService,
+  Transactional,
+} from '@/decorators/transactional';
+import { UnexpectedRollbackError } from '@/errors';
+import { runAfterRollback } from '@/hooks';
+import { runInTransaction } from '@/run-in-transaction';
+import {
+  getCurrentTransactionStatus,
+  type TransactionStatus,
+} from '@/transaction-status';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+class StatusTestService extends BaseTransactionalService {
+  readonly statuses: (TransactionStatus | null)[] = [];
+
+  constructor(dataSource: DataSource) {
+    super(dataSource);
+  }
+
+  @Transactional({ isolation: 'SERIALIZABLE' })
+  async outer(inner?: () => Promise<void>): Promise<string> {
+    this.statuses.push(getCurrentTransactionStatus(this.dataSource));
+    await this.saveUser('outer');
+    if (inner) {
+      await inner();
+    }
+    return 'done';
+  }
+
+  @Transactional()
+  async markRollbackOnly(): Promise<string> {
+    await this.saveUser('marked');
+    this.statuses.push(getCurrentTransactionStatus(this.dataSource));
+    getCurrentTransactionStatus(this.dataSource)?.setRollbackOnly();
+    return 'marked';
+  }
+
+  @Transactional({ propagation: 'NESTED' })
+  async nested(inner?: () => Promise<void>): Promise<void> {
+    this.statuses.push(getCurrentTransactionStatus(this.dataSource));
+    await this.saveUser('nested');
+    if (inner) {
+      await inner();
+    }
+  }
+
+  @Transactional({ throwOnUnexpectedRollback: false })
+  async outerWithoutUnexpectedRollbackError(
+    inner: () => Promise<void>,
+  ): Promise<string> {
+    await this.saveUser('outer');
+    await inner();
+    return 'done';
+  }
+
+  private async saveUser(userId: string): Promise<void> {
+    const user = new User();
+    user.userId = userId;
+    user.name = userId;
+    await this.getRepository(User).save(user);
+  }
+}
+
+describe('Transaction status', () => {
+  let service: StatusTestService;
+
+  const findUser = (userId: string) =>
+    testDataSource.getRepository(User).findOneBy({ userId });
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+    service = new StatusTestService(testDataSource);
+  });
+
+  test('should describe the owning and joined boundaries', async () => {
+    // When
+    await service
+      .outer(async () => {
+        await service.markRollbackOnly();
+      })
+      .catch(() => {});
+
+    // Then
+    const [outer, joined] = service.statuses;
+    expect(outer).toMatchObject({
+      isNewTransaction: true,
+      propagation: 'REQUIRED',
+      isolation: 'SERIALIZABLE',
+      depth: 1,
+      readOnly: false,
+    });
+    expect(joined).toMatchObject({ isNewTransaction: false, depth: 1 });
+    expect(joined?.transactionId).toBe(outer?.transactionId);
+    expect(outer?.isRollbackOnly).toBe(true);
+  });
+
+  test('should return null outside a transaction', () => {
+    // When / Then
+    expect(getCurrentTransactionStatus(testDataSource)).toBeNull();
+  });
+
+  test('should roll back and return the result when the owner marks it', async () => {
+    // When
+    const result = await service.markRollbackOnly();
+
+    // Then
+    expect(result).toBe('marked');
+    expect(await findUser('marked')).toBeNull();
+  });
+
+  test('should throw UnexpectedRollbackError when a joined call marks it', async () => {
+    // Given
+    const afterRollback = jest.fn();
+
+    // When
+    const result = service.outer(async () => {
+      runAfterRollback(testDataSource, afterRollback);
+      await service.markRollbackOnly();
+    });
+
+    // Then
+    await expect(result).rejects.toThrow(UnexpectedRollbackError);
+    expect(await findUser('outer')).toBeNull();
+    expect(await findUser('marked')).toBeNull();
+    expect(afterRollback).toHaveBeenCalledTimes(1);
+  });
+
+  test('should return the result when throwOnUnexpectedRollback is false', async () => {
+    // When
+    const result = await service.outerWithoutUnexpectedRollbackError(
+      async () => {
+        await service.markRollbackOnly();
+      },
+    );
+
+    // Then
+    expect(result).toBe('done');
+    expect(await findUser('outer')).toBeNull();
+  });
+
+  test('should roll back only the savepoint marked inside a NESTED call', async () => {
+    // When
+    await service.outer(async () => {
+      await service.nested(async () => {
+        getCurrentTransactionStatus(testDataSource)?.setRollbackOnly();
+      });
+    });
+
+    // Then
+    const [outer, nested] = service.statuses;
+    expect(nested).toMatchObject({ isNewTransaction: false, depth: 2 });
+    expect(nested?.transactionId).toBe(outer?.transactionId);
+    expect(outer?.isRollbackOnly).toBe(false);
+    expect(await findUser('outer')).not.toBeNull();
+    expect(await findUser('nested')).toBeNull();
+  });
+
+  test('should roll back the savepoint and fail when a call joined to it marks it', async () => {
+    // When
+    await service.outer(async () => {
+      await expect(
+        service.nested(async () => {
+          await service.markRollbackOnly();
+        }),
+      ).rejects.toThrow(UnexpectedRollbackError);
+    });
+
+    // Then
+    expect(await findUser('outer')).not.toBeNull();
+    expect(await findUser('nested')).toBeNull();
+    expect(await findUser('marked')).toBeNull();
+  });
+
+  test('should mark transactions started with runInTransaction', async () => {
+    // When
+    const result = await runInTransaction(testDataSource, async (manager) => {
+      await manager.save(User, { userId: 'programmatic', name: 'Test' });
+      getCurrentTransactionStatus(testDataSource)?.setRollbackOnly();
+      return 'ok';
+    });
+
+    // Then
+    expect(result).toBe('ok');
+    expect(await findUser('programmatic')).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { Repository } from 'typeorm';
+import { runInTransaction } from '@/run-in-transaction';
+import {
+  defineTransactionalRepository,
+  getCustomRepository,
+  getTransactionalRepository,
+} from '@/transactional-repository';
+import { User } from '../entity/user.model';
+import { testDataSource } from './config/test-db';
+import {
+  clearAllTestData,
+  ensureTestDatabaseInitialized,
+} from './config/test-utils';
+
+describe('getTransactionalRepository', () => {
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+  });
+
+  test('should return the same repository for the same DataSource and entity', () => {
+    // When
+    const repository = getTransactionalRepository(testDataSource, User);
+
+    // Then
+    expect(getTransactionalRepository(testDataSource, User)).toBe(repository);
+    expect(repository).toBeInstanceOf(Repository);
+  });
+
+  test('should run calls in the transaction active at call time', async () => {
+    // Given
+    const userRepository = getTransactionalRepository(testDataSource, User);
+
+    // When
+    await expect(
+      runInTransaction(testDataSource, async (manager) => {
+        await userRepository.save({ userId: 'rolled-back', name: 'Test' });
+        expect(userRepository.manager).toBe(manager);
+        throw new Error('Rollback');
+      }),
+    ).rejects.toThrow('Rollback');
+
+    // Then
+    expect(await userRepository.findOneBy({ userId: 'rolled-back' })).toBeNull();
+    expect(userRepository.manager).toBe(testDataSource.manager);
+  });
+
+  test('should resolve a method taken outside the transaction on each call', async () => {
+    // Given
+    const { save } = getTransactionalRepository(testDataSource, User);
+
+    // When
+    await expect(
+      runInTransaction(testDataSource, async () => {
+        await save({ userId: 'detached', name: 'Test' });
+        throw new Error('Rollback');
+      }),
+    ).rejects.toThrow('Rollback');
+
+    // Then
+    expect(
+      await testDataSource.getRepository(User).findOneBy({ userId: 'detached' }),
+    ).toBeNull();
+  });
+});
+
+class UserRepository extends Repository<User> {
+  async findByName(name: string): Promise<User | null> {
+    return await this.findOneBy({ name });
+  }
+}
+
+describe('Custom repositories', () => {
+  const extendedRepository = testDataSource.getRepository(User).extend({
+    async rename(
+      this: Repository<User>,
+      userId: string,
+      name: string,
+    ): Promise<void> {
+      await this.update({ userId }, { name });
+    },
+  });
+  const subclassRepository = new UserRepository(User, testDataSource.manager);
+
+  beforeAll(async () => {
+    await ensureTestDatabaseInitialized();
+  });
+
+  beforeEach(async () => {
+    await clearAllTestData();
+  });
+
+  test('should bind Repository.extend() repositories to the transaction', async () => {
+    // Given
+    await testDataSource.getRepository(User).save({ userId: 'u1', name: 'A' });
+
+    // When
+    await expect(
+      runInTransaction(testDataSource, async (manager) => {
+        const repository = getCustomRepository(extendedRepository);
+        expect(repository.manager).toBe(manager);
+        await repository.rename('u1', 'B');
+        throw new Error('Rollback');
+      }),
+    ).rejects.toThrow('Rollback');
+
+    // Then
+    expect(
+      await testDataSource.getRepository(User).findOneBy({ userId: 'u1' }),
+    ).toMatchObject({ name: 'A' });
+  });
+
+  test('should keep one instance per transaction', async () => {
+    // When
+    const [first, second] = await runInTransaction(testDataSource, async () => [
+      getCustomRepository(subclassRepository),
+      getCustomRepository(subclassRepository),
+    ]);
+    const other = await runInTransaction(testDataSource, async () =>
+      getCustomRepository(subclassRepository),
+    );
+
+    // Then
+    expect(first).toBe(second);
+    expect(first).not.toBe(other);
+    expect(first).toBeInstanceOf(UserRepository);
+    expect(getCustomRepository(subclassRepository)).toBe(subclassRepository);
+  });
+
+  test('should let a defined repository follow the transaction at call time', async () => {
+    // Given
+    const users = defineTransactionalRepository(subclassRepository);
+
+    // When
+    const found = await runInTransaction(testDataSource, async (manager) => {
+      await manager.save(User, { userId: 'u2', name: 'In transaction' });
+      return await users.findByName('In transaction');
+    });
+
+    // Then
+    expect(found?.userId).toBe('u2');
+    expect(users).toBeInstanceOf(UserRepository);
+  });
+});
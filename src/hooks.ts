@@ -0,0 +1,123 @@
+import type { DataSource } from 'typeorm';
+import { getOrCreateTransactionContext } from './context';
+import { IllegalTransactionStateError } from './errors';
+
+export type TransactionCompletionStatus = 'COMMITTED' | 'ROLLED_BACK';
+
+type SynchronizationCallback = () => void | Promise<void>;
+
+type CompletionCallback = (
+  status: TransactionCompletionStatus,
+) => void | Promise<void>;
+
+export interface TransactionSynchronizations {
+  beforeCommit: SynchronizationCallback[];
+  afterCommit: SynchronizationCallback[];
+  afterRollback: SynchronizationCallback[];
+  afterCompletion: CompletionCallback[];
+}
+
+export function createTransactionSynchronizations(): TransactionSynchronizations {
+  return {
+    beforeCommit: [],
+    afterCommit: [],
+    afterRollback: [],
+    afterCompletion: [],
+  };
+}
+
+function getActiveSynchronizations(
+  dataSource: DataSource,
+): TransactionSynchronizations {
+  const contextData = getOrCreateTransactionContext(dataSource).getStore();
+
+  if (!contextData) {
+    throw new IllegalTransactionStateError(
+      'Transaction synchronization requires an active transaction.',
+    );
+  }
+
+  return contextData.synchronizations;
+}
+
+/**
+ * Runs the callback inside the transaction right before it commits.
+ * Throwing from the callback rolls the transaction back.
+ */
+export function runBeforeCommit(
+  dataSource: DataSource,
+  fn: SynchronizationCallback,
+): void {
+  getActiveSynchronizations(dataSource).beforeCommit.push(fn);
+}
+
+/**
+ * Runs the callback once the transaction that owns the current context has committed
+ */
+export function runAfterCommit(
+  dataSource: DataSource,
+  fn: SynchronizationCallback,
+): void {
+  getActiveSynchronizations(dataSource).afterCommit.push(fn);
+}
+
+/**
+ * Runs the callback once the transaction that owns the current context has rolled back
+ */
+export function runAfterRollback(
+  dataSource: DataSource,
+  fn: SynchronizationCallback,
+): void {
+  getActiveSynchronizations(dataSource).afterRollback.push(fn);
+}
+
+/**
+ * Runs the callback after commit or rollback with the completion status
+ */
+export function runAfterCompletion(
+  dataSource: DataSource,
+  fn: CompletionCallback,
+): void {
+  getActiveSynchronizations(dataSource).afterCompletion.push(fn);
+}
+
+export async function triggerBeforeCommit(
+  synchronizations: TransactionSynchronizations,
+): Promise<void> {
+  for (const callback of synchronizations.beforeCommit) {
+    await callback();
+  }
+}
+
+export async function triggerAfterCompletion(
+  synchronizations: TransactionSynchronizations,
+  status: TransactionCompletionStatus,
+): Promise<void> {
+  const callbacks: SynchronizationCallback[] = [
+    ...(status === 'COMMITTED'
+      ? synchronizations.afterCommit
+      : synchronizations.afterRollback),
+    ...synchronizations.afterCompletion.map(
+      (callback) => () => callback(status),
+    ),
+  ];
+
+  let firstError: unknown;
+  let failed = false;
+  for (const callback of callbacks) {
+    try {
+      await callback();
+    } catch (error) {
+      if (!failed) {
+        firstError = error;
+        failed = true;
+      }
+    }
+  }
+
+  // The transaction is already complete, so every callback runs before a commit-side failure is reported.
+  // After a rollback the original error takes precedence and callback errors are dropped.
+  if (failed && status === 'COMMITTED') {
+    throw firstError;
+  }
+}
@@ -1,6 +1,103 @@
+export { getCurrentTransactionManager } from './context';
+export {
+  DEFAULT_DATA_SOURCE_NAME,
+  getRegisteredDataSource,
+  getRegisteredDataSourceName,
+  registerDataSource,
+  resolveRegisteredDataSource,
+  unregisterDataSource,
+} from './data-source-registry';
 export {
   BaseTransactionalService,
-  getCurrentTransactionManager,
+  NonTransactional,
   Transactional,
-  type TransactionalOptions,
 } from './decorators/transactional';
+export {
+  IllegalTransactionStateError,
+  PartialCommitError,
+  ReadOnlyTransactionError,
+  TransactionalError,
+  TransactionTimeoutError,
+  UnexpectedRollbackError,
+  UnsupportedIsolationLevelError,
+} from './errors';
+export {
+  runAfterCommit,
+  runAfterCompletion,
+  runAfterRollback,
+  runBeforeCommit,
+  type TransactionCompletionStatus,
+} from './hooks';
+export {
+  getIsolationFallback,
+  ISOLATION_CAPABILITIES,
+  type IsolationCapabilities,
+  type IsolationFallbackPolicy,
+  setIsolationFallbackPolicy,
+} from './isolation';
+export {
+  type JoinValidationMode,
+  type JoinValidationOptions,
+  setJoinValidation,
+} from './join-validation';
+export {
+  fastifyTransactionalPlugin,
+  koaTransactionalMiddleware,
+  type TransactionalMiddlewareOptions,
+  transactionalMiddleware,
+} from './middleware';
+export {
+  type MultiTransactionOptions,
+  runInTransactions,
+} from './multi-transaction';
+export {
+  registerTransactionObserver,
+  type TransactionEvent,
+  type TransactionEventType,
+  type TransactionObserver,
+  unregisterTransactionObserver,
+} from './observers';
+export {
+  type OutboxEvent,
+  OutboxMessage,
+  type OutboxMessageStatus,
+  type OutboxPublisher,
+  OutboxRelay,
+  type OutboxRelayOptions,
+  publishToOutbox,
+} from './outbox';
+export {
+  isMysqlRetryableError,
+  isPostgresRetryableError,
+  isRetryableTransactionError,
+  isSqliteRetryableError,
+  type RetryOptions,
+} from './retry';
+export type { RollbackRule } from './rollback-rules';
+export {
+  type IsolationLevel,
+  type Propagation,
+  runInTransaction,
+  type TransactionalOptions,
+  wrapInTransaction,
+} from './run-in-transaction';
+export {
+  setTransactionTracer,
+  type TransactionSpan,
+  type TransactionTracer,
+  type TransactionTracingOptions,
+} from './tracing';
+export {
+  TransactionLogger,
+  type TransactionLoggerOptions,
+  type TransactionLogSink,
+} from './transaction-logger';
+export {
+  getCurrentTransactionStatus,
+  type TransactionStatus,
+} from './transaction-status';
+export {
+  defineTransactionalRepository,
+  getCustomRepository,
+  getTransactionalRepository,
+} from './transactional-repository';
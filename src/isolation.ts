@@ -0,0 +1,157 @@
+import type { DataSource } from 'typeorm';
+import { UnsupportedIsolationLevelError } from './errors';
+import type { IsolationLevel } from './run-in-transaction';
+
+type DatabaseType = DataSource['options']['type'];
+
+// What happens when the driver does not support the requested level:
+// run at the driver's fallback level, throw, or start the transaction at the database default
+export type IsolationFallbackPolicy = 'upgrade' | 'throw' | 'ignore';
+
+export interface IsolationCapabilities {
+  supported: IsolationLevel[];
+  // Stricter level run instead of an unsupported one; levels without a fallback always throw
+  fallbacks: Partial<Record<IsolationLevel, IsolationLevel>>;
+}
+
+const ALL_LEVELS: IsolationCapabilities = {
+  supported: [
+    'READ UNCOMMITTED',
+    'READ COMMITTED',
+    'REPEATABLE READ',
+    'SERIALIZABLE',
+  ],
+  fallbacks: {},
+};
+
+// Postgres accepts READ UNCOMMITTED but runs it as READ COMMITTED
+const POSTGRES: IsolationCapabilities = {
+  supported: ['READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE'],
+  fallbacks: { 'READ UNCOMMITTED': 'READ COMMITTED' },
+};
+
+// TypeORM rejects the other levels for every SQLite based driver
+const SQLITE: IsolationCapabilities = {
+  supported: ['READ UNCOMMITTED', 'SERIALIZABLE'],
+  fallbacks: {
+    'READ COMMITTED': 'SERIALIZABLE',
+    'REPEATABLE READ': 'SERIALIZABLE',
+  },
+};
+
+/**
+ * Isolation levels per driver. Drivers missing from the table get the requested level unchanged.
+ */
+export const ISOLATION_CAPABILITIES: Partial<
+  Record<DatabaseType, IsolationCapabilities>
+> = {
+  postgres: POSTGRES,
+  // CockroachDB upgrades the levels it lacks, and runs READ COMMITTED as SERIALIZABLE unless the cluster enables it
+  cockroachdb: {
+    supported: ['READ COMMITTED', 'SERIALIZABLE'],
+    fallbacks: {
+      'READ UNCOMMITTED': 'READ COMMITTED',
+      'REPEATABLE READ': 'SERIALIZABLE',
+    },
+  },
+  mysql: ALL_LEVELS,
+  mariadb: ALL_LEVELS,
+  mssql: ALL_LEVELS,
+  oracle: {
+    supported: ['READ COMMITTED', 'SERIALIZABLE'],
+    fallbacks: {
+      'READ UNCOMMITTED': 'READ COMMITTED',
+      'REPEATABLE READ': 'SERIALIZABLE',
+    },
+  },
+  sap: {
+    supported: ['READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE'],
+    fallbacks: { 'READ UNCOMMITTED': 'READ COMMITTED' },
+  },
+  // The Data API ignores the level, so only the engine default can be honored
+  'aurora-mysql': {
+    supported: ['REPEATABLE READ'],
+    fallbacks: {
+      'READ UNCOMMITTED': 'REPEATABLE READ',
+      'READ COMMITTED': 'REPEATABLE READ',
+    },
+  },
+  'aurora-postgres': {
+    supported: ['READ COMMITTED'],
+    fallbacks: { 'READ UNCOMMITTED': 'READ COMMITTED' },
+  },
+  // Spanner runs every read-write transaction as SERIALIZABLE
+  spanner: {
+    supported: ['SERIALIZABLE'],
+    fallbacks: {
+      'READ UNCOMMITTED': 'SERIALIZABLE',
+      'READ COMMITTED': 'SERIALIZABLE',
+      'REPEATABLE READ': 'SERIALIZABLE',
+    },
+  },
+  sqlite: SQLITE,
+  'better-sqlite3': SQLITE,
+  sqljs: SQLITE,
+  capacitor: SQLITE,
+  cordova: SQLITE,
+  expo: SQLITE,
+  nativescript: SQLITE,
+  'react-native': SQLITE,
+};
+
+let defaultPolicy: IsolationFallbackPolicy = 'upgrade';
+
+/**
+ * Sets the policy for boundaries that do not pass `isolationFallback` (default: 'upgrade')
+ */
+export function setIsolationFallbackPolicy(
+  policy: IsolationFallbackPolicy,
+): void {
+  defaultPolicy = policy;
+}
+
+/**
+ * Level the driver runs `level` at under the 'upgrade' policy, undefined when it has no fallback
+ */
+export function getIsolationFallback(
+  dataSource: DataSource,
+  level: IsolationLevel,
+): IsolationLevel | undefined {
+  const capabilities = ISOLATION_CAPABILITIES[dataSource.options.type];
+  if (!capabilities || capabilities.supported.includes(level)) {
+    return level;
+  }
+  return capabilities.fallbacks[level];
+}
+
+/**
+ * Returns the level to start the transaction with, or undefined for the database default
+ */
+export function resolveIsolationLevel(
+  dataSource: DataSource,
+  requested: IsolationLevel | undefined,
+  policy: IsolationFallbackPolicy = defaultPolicy,
+): IsolationLevel | undefined {
+  if (!requested) {
+    return undefined;
+  }
+
+  const fallback = getIsolationFallback(dataSource, requested);
+  if (fallback === requested) {
+    return requested;
+  }
+  if (policy === 'ignore') {
+    return undefined;
+  }
+  if (policy === 'upgrade' && fallback) {
+    return fallback;
+  }
+
+  const type = dataSource.options.type;
+  const supported = ISOLATION_CAPABILITIES[type]?.supported ?? [];
+  throw new UnsupportedIsolationLevelError(
+    `${type} does not support isolation level '${requested}'${fallback ? '' : ' and has no stricter level to fall back to'}. Supported levels: ${supported.join(', ')}.`,
+    requested,
+    type,
+  );
+}
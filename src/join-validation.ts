@@ -0,0 +1,85 @@
+import type { TransactionContextData } from './context';
+import { IllegalTransactionStateError } from './errors';
+import { getIsolationFallback } from './isolation';
+import type { Propagation, TransactionalOptions } from './run-in-transaction';
+
+// Throw, log or ignore options a joining call cannot apply to the transaction it joins
+export type JoinValidationMode = 'strict' | 'warn' | 'off';
+
+export interface JoinValidationOptions {
+  // Receives the conflicts in 'warn' mode (default: console)
+  logger?: { warn(message: string): void };
+}
+
+let validation: { mode: JoinValidationMode; options: JoinValidationOptions } = {
+  mode: 'off',
+  options: {},
+};
+
+/**
+ * Sets how calls joining an existing transaction or savepoint are checked against it (default: 'off')
+ */
+export function setJoinValidation(
+  mode: JoinValidationMode,
+  options: JoinValidationOptions = {},
+): void {
+  validation = { mode, options };
+}
+
+function findJoinConflicts(
+  existing: TransactionContextData,
+  options: TransactionalOptions,
+): string[] {
+  const conflicts: string[] = [];
+  const existingIsolation = existing.transactionState.isolation;
+  // A level the driver runs as the transaction's own level is no conflict
+  if (
+    options.isolation &&
+    options.isolation !== existingIsolation &&
+    getIsolationFallback(existing.dataSource, options.isolation) !==
+      existingIsolation
+  ) {
+    conflicts.push(
+      `isolation '${options.isolation}' but the transaction runs at ${existingIsolation ? `'${existingIsolation}'` : 'the database default'}`,
+    );
+  }
+  if (options.readOnly && !existing.readOnly) {
+    conflicts.push('readOnly but the transaction is read-write');
+  }
+  // Only a stricter timeout than what is left of the transaction's is lost
+  if (
+    options.timeout !== undefined &&
+    (existing.deadline === undefined ||
+      existing.deadline - Date.now() > options.timeout)
+  ) {
+    conflicts.push(
+      `timeout ${options.timeout}ms but the transaction ${existing.deadline === undefined ? 'has no timeout' : `has ${existing.deadline - Date.now()}ms left`}`,
+    );
+  }
+  return conflicts;
+}
+
+/**
+ * Reports options of a joining call that the existing transaction does not honor
+ */
+export function validateJoin(
+  existing: TransactionContextData,
+  options: TransactionalOptions,
+  name: string,
+  propagation: Propagation,
+): void {
+  if (validation.mode === 'off') {
+    return;
+  }
+
+  const conflicts = findJoinConflicts(existing, options);
+  if (conflicts.length === 0) {
+    return;
+  }
+
+  const message = `${name} declares ${conflicts.join(', and ')}; joined calls cannot change the transaction they join.`;
+  if (validation.mode === 'strict') {
+    throw new IllegalTransactionStateError(message, propagation);
+  }
+  (validation.options.logger ?? console).warn(message);
+}
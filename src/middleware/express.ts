@@ -0,0 +1,70 @@
+import type { DataSource } from 'typeorm';
+import {
+  beginRequestTransaction,
+  type TransactionalMiddlewareOptions,
+} from './request-transaction';
+
+// Structural types so the middleware does not depend on express at runtime
+interface ExpressResponseLike {
+  statusCode: number;
+  headersSent: boolean;
+  // biome-ignore lint/suspicious/noExplicitAny: Mirrors the overloaded ServerResponse.end
+  end: (...args: any[]) => unknown;
+  once(event: 'close', listener: () => void): unknown;
+  removeHeader(name: string): void;
+  destroy(error?: Error): unknown;
+}
+
+type ExpressNextFunction = (error?: unknown) => void;
+
+/**
+ * Express middleware that runs the rest of the request in one transaction.
+ * The transaction commits right before the response is sent and rolls back when the
+ * response status matches `rollbackOnStatus`, which covers errors thrown by handlers
+ * or passed to `next(err)` since Express answers them with an error status.
+ */
+export function transactionalMiddleware(
+  dataSource: DataSource,
+  options: TransactionalMiddlewareOptions = {},
+) {
+  return (
+    _req: unknown,
+    res: ExpressResponseLike,
+    next: ExpressNextFunction,
+  ): void => {
+    const complete = beginRequestTransaction(dataSource, options, (error) =>
+      error === undefined ? next() : next(error),
+    );
+
+    // Hold the response back until the transaction is settled
+    const end = res.end;
+    res.end = (...args: unknown[]) => {
+      res.end = end;
+      complete({ status: res.statusCode }).then(
+        () => end.apply(res, args),
+        (error) => {
+          if (res.headersSent) {
+            res.destroy(error);
+            return;
+          }
+          // The commit failed, so the prepared response must not be sent
+          res.statusCode = 500;
+          res.removeHeader('Content-Length');
+          res.removeHeader('Content-Type');
+          end.call(res, 'Internal Server Error');
+        },
+      );
+      return res;
+    };
+
+    res.once('close', () => {
+      // Connection closed before the response was sent
+      complete({
+        status: res.statusCode,
+        error: {
+          value: new Error('Request closed before the response was sent'),
+        },
+      }).catch(() => {});
+    });
+  };
+}
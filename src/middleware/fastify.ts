@@ -0,0 +1,106 @@
+import type { DataSource } from 'typeorm';
+import {
+  beginRequestTransaction,
+  type RequestOutcome,
+  type TransactionalMiddlewareOptions,
+} from './request-transaction';
+
+// Structural types so the plugin does not depend on fastify at runtime
+interface FastifyReplyLike {
+  statusCode: number;
+}
+
+type HookDone = (error?: unknown, payload?: unknown) => void;
+
+interface FastifyInstanceLike {
+  addHook(
+    name: 'onRequest' | 'onResponse',
+    hook: (request: object, reply: FastifyReplyLike, done: HookDone) => void,
+  ): unknown;
+  addHook(
+    name: 'onError',
+    hook: (
+      request: object,
+      reply: FastifyReplyLike,
+      error: unknown,
+      done: HookDone,
+    ) => void,
+  ): unknown;
+  addHook(
+    name: 'onSend',
+    hook: (
+      request: object,
+      reply: FastifyReplyLike,
+      payload: unknown,
+      done: HookDone,
+    ) => void,
+  ): unknown;
+}
+
+interface RequestState {
+  complete: (outcome: RequestOutcome) => Promise<void>;
+  error?: { value: unknown };
+}
+
+/**
+ * Fastify plugin that runs each request in one transaction.
+ * The transaction settles in `onSend`, so a failed commit still turns into an error response.
+ */
+export function fastifyTransactionalPlugin(
+  dataSource: DataSource,
+  options: TransactionalMiddlewareOptions = {},
+) {
+  const requests = new WeakMap<object, RequestState>();
+
+  const plugin = (
+    fastify: FastifyInstanceLike,
+    _opts: unknown,
+    pluginDone: HookDone,
+  ) => {
+    fastify.addHook('onRequest', (request, _reply, done) => {
+      const complete = beginRequestTransaction(dataSource, options, (error) =>
+        error === undefined ? done() : done(error),
+      );
+      requests.set(request, { complete });
+    });
+
+    fastify.addHook('onError', (request, _reply, error, done) => {
+      const state = requests.get(request);
+      if (state) {
+        state.error = { value: error };
+      }
+      done();
+    });
+
+    fastify.addHook('onSend', (request, reply, payload, done) => {
+      const state = requests.get(request);
+      if (!state) {
+        done(null, payload);
+        return;
+      }
+      state
+        .complete({ status: reply.statusCode, error: state.error })
+        .then(() => done(null, payload), done);
+    });
+
+    fastify.addHook('onResponse', (request, reply, done) => {
+      // Requests that never reached onSend (e.g. aborted) still need to settle
+      requests
+        .get(request)
+        ?.complete({
+          status: reply.statusCode,
+          error: {
+            value: new Error('Request closed before the response was sent'),
+          },
+        })
+        .catch(() => {});
+      done();
+    });
+
+    pluginDone();
+  };
+
+  // Register the hooks on the parent instance instead of an encapsulated context
+  Object.assign(plugin, { [Symbol.for('skip-override')]: true });
+  return plugin;
+}
@@ -0,0 +1,4 @@
+export { transactionalMiddleware } from './express';
+export { fastifyTransactionalPlugin } from './fastify';
+export { koaTransactionalMiddleware } from './koa';
+export type { TransactionalMiddlewareOptions } from './request-transaction';
@@ -0,0 +1,48 @@
+import type { DataSource } from 'typeorm';
+import { runInTransaction } from '../run-in-transaction';
+import {
+  RollbackStatusSignal,
+  shouldRollbackOnStatus,
+  type TransactionalMiddlewareOptions,
+} from './request-transaction';
+
+// Structural type so the middleware does not depend on koa at runtime
+interface KoaContextLike {
+  status: number;
+}
+
+/**
+ * Koa middleware that runs downstream middleware in one transaction.
+ * Koa sends the response after the middleware chain, so the transaction settles first.
+ */
+export function koaTransactionalMiddleware(
+  dataSource: DataSource,
+  options: TransactionalMiddlewareOptions = {},
+) {
+  const { rollbackOnStatus, ...transactionalOptions } = options;
+
+  return async (
+    ctx: KoaContextLike,
+    next: () => Promise<unknown>,
+  ): Promise<void> => {
+    try {
+      await runInTransaction(
+        dataSource,
+        async () => {
+          await next();
+          if (shouldRollbackOnStatus(ctx.status, rollbackOnStatus)) {
+            throw new RollbackStatusSignal();
+          }
+        },
+        {
+          ...transactionalOptions,
+          rollbackFor: [RollbackStatusSignal, ...(options.rollbackFor ?? [])],
+        },
+      );
+    } catch (error) {
+      if (!(error instanceof RollbackStatusSignal)) {
+        throw error;
+      }
+    }
+  };
+}
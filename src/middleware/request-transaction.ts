@@ -0,0 +1,99 @@
+import type { DataSource } from 'typeorm';
+import {
+  runInTransaction,
+  type TransactionalOptions,
+} from '../run-in-transaction';
+
+// Retrying is not supported because the request cannot be replayed
+export interface TransactionalMiddlewareOptions
+  extends Omit<TransactionalOptions, 'retry'> {
+  // Response status codes that roll the transaction back (default: every 4xx and 5xx)
+  rollbackOnStatus?: number[] | ((status: number) => boolean);
+}
+
+export interface RequestOutcome {
+  status: number;
+  // Set when the handler failed, rolls back according to rollbackFor / noRollbackFor
+  error?: { value: unknown };
+}
+
+/**
+ * Internal signal used to roll back a request that finished with a rollback status
+ */
+export class RollbackStatusSignal extends Error {}
+
+export function shouldRollbackOnStatus(
+  status: number,
+  rollbackOnStatus: TransactionalMiddlewareOptions['rollbackOnStatus'],
+): boolean {
+  if (Array.isArray(rollbackOnStatus)) {
+    return rollbackOnStatus.includes(status);
+  }
+  if (rollbackOnStatus) {
+    return rollbackOnStatus(status);
+  }
+  return status >= 400;
+}
+
+/**
+ * Opens a transaction that stays open until the request outcome is known.
+ * `enter` runs inside the transaction context so the rest of the request inherits it;
+ * it receives the error when the transaction could not be started.
+ * The returned function settles the transaction once and resolves after commit or rollback.
+ */
+export function beginRequestTransaction(
+  dataSource: DataSource,
+  options: TransactionalMiddlewareOptions,
+  enter: (error?: unknown) => void,
+): (outcome: RequestOutcome) => Promise<void> {
+  const { rollbackOnStatus, ...transactionalOptions } = options;
+  let entered = false;
+  let handlerError: RequestOutcome['error'];
+  let settle: (outcome: RequestOutcome) => void = () => {};
+  const outcome = new Promise<RequestOutcome>((resolve) => {
+    settle = resolve;
+  });
+
+  const transaction = runInTransaction(
+    dataSource,
+    async () => {
+      entered = true;
+      enter();
+
+      const { status, error } = await outcome;
+      if (error) {
+        throw error.value;
+      }
+      if (shouldRollbackOnStatus(status, rollbackOnStatus)) {
+        throw new RollbackStatusSignal();
+      }
+    },
+    {
+      ...transactionalOptions,
+      rollbackFor: [RollbackStatusSignal, ...(options.rollbackFor ?? [])],
+    },
+  ).catch((error) => {
+    if (!entered) {
+      enter(error);
+      return;
+    }
+    // Handler errors and rollback statuses are already part of the response
+    if (
+      error instanceof RollbackStatusSignal ||
+      (handlerError && error === handlerError.value)
+    ) {
+      return;
+    }
+    throw error;
+  });
+
+  let completion: Promise<void> | undefined;
+  return (result) => {
+    if (!completion) {
+      handlerError = result.error;
+      settle(result);
+      completion = transaction;
+    }
+    return completion;
+  };
+}
@@ -0,0 +1,561 @@
+import { randomUUID } from 'node:crypto';
+import type { DataSource, EntityManager, QueryRunner } from 'typeorm';
+import {
+  getOrCreateTransactionContext,
+  getTestTransactionManager,
+  type TransactionContextData,
+} from './context';
+import {
+  getRegisteredDataSourceName,
+  resolveRegisteredDataSource,
+} from './data-source-registry';
+import { IllegalTransactionStateError, PartialCommitError } from './errors';
+import {
+  createTransactionSynchronizations,
+  type TransactionCompletionStatus,
+  triggerAfterCompletion,
+  triggerBeforeCommit,
+} from './hooks';
+import { resolveIsolationLevel } from './isolation';
+import {
+  notifyTransactionObservers,
+  type TransactionEvent,
+  type TransactionEventType,
+} from './observers';
+import { shouldRollbackOn } from './rollback-rules';
+import type {
+  TransactionalOptions,
+  TransactionCaller,
+} from './run-in-transaction';
+import { setTransactionOutcome, withTransactionSpan } from './tracing';
+import {
+  createTransactionState,
+  createUnexpectedRollbackError,
+  TransactionStatus,
+} from './transaction-status';
+
+export type MultiTransactionOptions = Pick<
+  TransactionalOptions,
+  | 'isolation'
+  | 'isolationFallback'
+  | 'rollbackFor'
+  | 'noRollbackFor'
+  | 'twoPhaseCommit'
+  | 'throwOnUnexpectedRollback'
+>;
+
+// Options that need a single transaction and are rejected with several DataSources
+const UNSUPPORTED_OPTIONS = [
+  'retry',
+  'timeout',
+  'readOnly',
+  'connectionName',
+] as const;
+
+// Postgres prepares with PREPARE TRANSACTION, MySQL and MariaDB with XA transactions
+const TWO_PHASE_COMMIT_DRIVERS = ['postgres', 'mysql', 'mariadb'];
+
+interface Participant {
+  name: string;
+  dataSource: DataSource;
+  contextData: TransactionContextData;
+  // Only set when this call opened the transaction, joined transactions are left to their owner
+  queryRunner?: QueryRunner;
+  // False for the shared query runner of a test transaction
+  releaseQueryRunner: boolean;
+  // Id of the XA transaction a MySQL or MariaDB participant runs in during two-phase commit
+  xaId?: string;
+  preparedId?: string;
+  status?: TransactionCompletionStatus;
+}
+
+// TypeORM does not issue XA statements, so its transaction state is kept in sync by hand
+function setTransactionActive(queryRunner: QueryRunner, active: boolean): void {
+  const state = queryRunner as unknown as {
+    isTransactionActive: boolean;
+    transactionDepth: number;
+  };
+  state.isTransactionActive = active;
+  state.transactionDepth = active ? 1 : 0;
+}
+
+async function startXaTransaction(
+  queryRunner: QueryRunner,
+  xaId: string,
+  isolationLevel: string | undefined,
+): Promise<void> {
+  if (isolationLevel) {
+    await queryRunner.query(
+      `SET TRANSACTION ISOLATION LEVEL ${isolationLevel}`,
+    );
+  }
+  await queryRunner.query(`XA START '${xaId}'`);
+  setTransactionActive(queryRunner, true);
+}
+
+async function openParticipant(
+  dataSource: DataSource,
+  index: number,
+  options: MultiTransactionOptions,
+  twoPhaseCommit: boolean,
+): Promise<Participant> {
+  const name = getRegisteredDataSourceName(dataSource) ?? `#${index}`;
+  const existingContext = getOrCreateTransactionContext(dataSource).getStore();
+  if (existingContext) {
+    return {
+      name,
+      dataSource,
+      contextData: {
+        ...existingContext,
+        status: new TransactionStatus(
+          existingContext.transactionState,
+          false,
+          false,
+          'REQUIRED',
+          existingContext.depth,
+          existingContext.readOnly,
+        ),
+      },
+      releaseQueryRunner: false,
+    };
+  }
+
+  const isolationLevel = resolveIsolationLevel(
+    dataSource,
+    options.isolation,
+    options.isolationFallback,
+  );
+  // Inside a test transaction the transaction becomes a savepoint of it
+  const testManager = getTestTransactionManager(dataSource);
+  const queryRunner =
+    testManager?.queryRunner ?? dataSource.createQueryRunner();
+  const transactionState = createTransactionState(isolationLevel);
+  const participant: Participant = {
+    name,
+    dataSource,
+    contextData: {
+      manager: queryRunner.manager,
+      dataSource,
+      synchronizations: createTransactionSynchronizations(),
+      readOnly: false,
+      depth: 1,
+      transactionState,
+      status: new TransactionStatus(
+        transactionState,
+        true,
+        false,
+        'REQUIRED',
+        1,
+        false,
+      ),
+    },
+    queryRunner,
+    releaseQueryRunner: !testManager,
+    xaId:
+      twoPhaseCommit && dataSource.options.type !== 'postgres'
+        ? `typeorm_tx_${randomUUID()}`
+        : undefined,
+  };
+
+  try {
+    await queryRunner.connect();
+    if (participant.xaId) {
+      await startXaTransaction(queryRunner, participant.xaId, isolationLevel);
+    } else {
+      await queryRunner.startTransaction(isolationLevel);
+    }
+  } catch (error) {
+    if (participant.releaseQueryRunner) {
+      await queryRunner.release();
+    }
+    throw error;
+  }
+  return participant;
+}
+
+async function rollbackParticipant(participant: Participant): Promise<void> {
+  const { queryRunner, preparedId, xaId } = participant;
+  participant.status = 'ROLLED_BACK';
+  try {
+    if (preparedId) {
+      await queryRunner?.query(
+        xaId
+          ? `XA ROLLBACK '${preparedId}'`
+          : `ROLLBACK PREPARED '${preparedId}'`,
+      );
+    } else if (xaId && queryRunner?.isTransactionActive) {
+      // XA END fails when preparing already ended the transaction, which XA ROLLBACK still undoes
+      await queryRunner.query(`XA END '${xaId}'`).catch(() => {});
+      await queryRunner.query(`XA ROLLBACK '${xaId}'`);
+      setTransactionActive(queryRunner, false);
+    } else if (queryRunner?.isTransactionActive) {
+      await queryRunner.rollbackTransaction();
+    }
+  } catch {
+    // The rollback is best effort, the original error is what the caller needs
+  }
+}
+
+/**
+ * Two-phase commit is opt-in: Postgres needs `max_prepared_transactions > 0`, which it ships without.
+ * It also needs every DataSource on a supported driver and a transaction of its own.
+ */
+function canUseTwoPhaseCommit(
+  dataSources: DataSource[],
+  options: MultiTransactionOptions,
+): boolean {
+  return (
+    options.twoPhaseCommit === true &&
+    dataSources.length > 1 &&
+    dataSources.every(
+      (dataSource) =>
+        TWO_PHASE_COMMIT_DRIVERS.includes(dataSource.options.type) &&
+        !getOrCreateTransactionContext(dataSource).getStore() &&
+        !getTestTransactionManager(dataSource),
+    )
+  );
+}
+
+async function prepareParticipants(participants: Participant[]): Promise<void> {
+  for (const participant of participants) {
+    const queryRunner = participant.queryRunner as QueryRunner;
+    const { xaId } = participant;
+    if (xaId) {
+      await queryRunner.query(`XA END '${xaId}'`);
+      await queryRunner.query(`XA PREPARE '${xaId}'`);
+      participant.preparedId = xaId;
+      setTransactionActive(queryRunner, false);
+      continue;
+    }
+
+    const preparedId = `typeorm_tx_${randomUUID()}`;
+    await queryRunner.query(`PREPARE TRANSACTION '${preparedId}'`);
+    participant.preparedId = preparedId;
+    // PREPARE already ended the session's transaction; this only resets TypeORM's
+    // transaction state (Postgres answers the extra COMMIT with a warning)
+    await queryRunner.commitTransaction();
+  }
+}
+
+async function commitParticipant(participant: Participant): Promise<void> {
+  const queryRunner = participant.queryRunner as QueryRunner;
+  if (participant.preparedId) {
+    await queryRunner.query(
+      participant.xaId
+        ? `XA COMMIT '${participant.preparedId}'`
+        : `COMMIT PREPARED '${participant.preparedId}'`,
+    );
+    participant.preparedId = undefined;
+  } else {
+    await queryRunner.commitTransaction();
+  }
+  participant.status = 'COMMITTED';
+}
+
+/**
+ * Commits every participant in order. Nothing is committed when preparing fails;
+ * a failure after the first commit is reported as PartialCommitError.
+ */
+async function commitParticipants(
+  participants: Participant[],
+  twoPhaseCommit: boolean,
+): Promise<void> {
+  if (twoPhaseCommit) {
+    try {
+      await prepareParticipants(participants);
+    } catch (error) {
+      await Promise.all(participants.map(rollbackParticipant));
+      throw error;
+    }
+  }
+
+  for (const [index, participant] of participants.entries()) {
+    try {
+      await commitParticipant(participant);
+    } catch (error) {
+      const remaining = participants.slice(index);
+      const committed = participants.slice(0, index);
+      // Prepared transactions are kept after a partial commit so they can still be committed
+      for (const other of remaining) {
+        if (committed.length === 0 || !other.preparedId) {
+          await rollbackParticipant(other);
+        } else {
+          other.status = 'ROLLED_BACK';
+        }
+      }
+      if (committed.length === 0) {
+        throw error;
+      }
+
+      const notCommitted = remaining.map((other) =>
+        other.preparedId
+          ? `${other.name} (prepared as ${other.preparedId})`
+          : other.name,
+      );
+      throw new PartialCommitError(
+        `Committed ${committed.map((other) => other.name).join(', ')} but not ${notCommitted.join(', ')}.`,
+        committed.map((other) => other.name),
+        remaining.map((other) => other.name),
+        error,
+      );
+    }
+  }
+}
+
+async function completeParticipants(
+  participants: Participant[],
+): Promise<void> {
+  for (const participant of participants) {
+    if (participant.releaseQueryRunner) {
+      await participant.queryRunner?.release();
+    }
+  }
+
+  // Every participant's hooks run even when an earlier one throws
+  let hookError: { error: unknown } | undefined;
+  for (const participant of participants) {
+    try {
+      await triggerAfterCompletion(
+        participant.contextData.synchronizations,
+        participant.status ?? 'ROLLED_BACK',
+      );
+    } catch (error) {
+      hookError ??= { error };
+    }
+  }
+  if (hookError) {
+    throw hookError.error;
+  }
+}
+
+/**
+ * Runs `fn` with a transaction on every DataSource, each exposed through its usual context.
+ * DataSources that already have a transaction in the current context are joined.
+ * Observers and tracing see one boundary per DataSource.
+ */
+export async function executeMultiTransactional<T>(
+  dataSources: DataSource[],
+  fn: () => Promise<T>,
+  options: TransactionalOptions,
+  caller: TransactionCaller,
+): Promise<T> {
+  const name = caller.className
+    ? `${caller.className}.${caller.methodName}`
+    : caller.methodName;
+  const propagation = options.propagation ?? 'REQUIRED';
+  const unsupported = UNSUPPORTED_OPTIONS.filter(
+    (option) => options[option] !== undefined,
+  );
+  if (propagation !== 'REQUIRED' || unsupported.length > 0) {
+    throw new IllegalTransactionStateError(
+      `${name} uses multiple DataSources, which only support propagation 'REQUIRED' without ${UNSUPPORTED_OPTIONS.join(', ')}.`,
+      propagation,
+    );
+  }
+  if (new Set(dataSources).size !== dataSources.length) {
+    throw new Error(`${name} lists the same DataSource more than once.`);
+  }
+
+  const twoPhaseCommit = canUseTwoPhaseCommit(dataSources, options);
+  const startedAt = Date.now();
+  const participants: Participant[] = [];
+
+  const emit = (
+    participant: Participant,
+    type: TransactionEventType,
+    details: Partial<TransactionEvent> = {},
+  ) =>
+    notifyTransactionObservers({
+      type,
+      dataSource: participant.dataSource,
+      className: caller.className,
+      methodName: caller.methodName,
+      propagation,
+      isolation: options.isolation,
+      readOnly: participant.contextData.readOnly,
+      depth: participant.contextData.depth,
+      ...details,
+    });
+
+  // Reports how every transaction this call owns ended, before the afterCompletion hooks run
+  const reportCompletion = (
+    reported: Participant[],
+    failure: { error: unknown } | undefined,
+  ) => {
+    for (const participant of reported) {
+      const details = {
+        duration: Date.now() - startedAt,
+        error: failure?.error,
+      };
+      if (failure) {
+        emit(participant, 'ERROR', details);
+      }
+      if (participant.queryRunner) {
+        const outcome = participant.status ?? 'ROLLED_BACK';
+        emit(
+          participant,
+          outcome === 'COMMITTED' ? 'COMMIT' : 'ROLLBACK',
+          details,
+        );
+        setTransactionOutcome(participant.contextData.span, outcome);
+      }
+    }
+  };
+
+  // Runs `fn` in every context, the first DataSource outermost, then commits or rolls back
+  const runAndComplete = async (): Promise<T> => {
+    const owned = participants.filter((participant) => participant.queryRunner);
+    const run = participants.reduceRight<() => Promise<T>>(
+      (next, participant) => () =>
+        getOrCreateTransactionContext(participant.dataSource).run(
+          participant.contextData,
+          next,
+        ),
+      fn,
+    );
+
+    // Set when the method fails with an error that must not roll back
+    let committedError: { error: unknown } | undefined;
+    let result: T | undefined;
+    try {
+      try {
+        result = await run();
+      } catch (error) {
+        if (
+          shouldRollbackOn(error, options.rollbackFor, options.noRollbackFor)
+        ) {
+          throw error;
+        }
+        committedError = { error };
+      }
+
+      // Any DataSource marked rollback-only rolls back all of them
+      const markedState = owned
+        .map((participant) => participant.contextData.transactionState)
+        .find((state) => state.rollbackOnly);
+      if (markedState) {
+        if (committedError) {
+          throw committedError.error;
+        }
+        const unexpectedRollback = createUnexpectedRollbackError(
+          markedState,
+          name,
+          options.throwOnUnexpectedRollback,
+        );
+        if (unexpectedRollback) {
+          throw unexpectedRollback;
+        }
+        await Promise.all(owned.map(rollbackParticipant));
+      } else {
+        for (const participant of owned) {
+          await triggerBeforeCommit(participant.contextData.synchronizations);
+        }
+        await commitParticipants(owned, twoPhaseCommit);
+      }
+    } catch (error) {
+      await Promise.all(
+        owned
+          .filter((participant) => !participant.status)
+          .map(rollbackParticipant),
+      );
+      reportCompletion(participants, { error });
+      await completeParticipants(owned);
+      throw error;
+    }
+
+    reportCompletion(participants, committedError);
+    await completeParticipants(owned);
+    if (committedError) {
+      throw committedError.error;
+    }
+    // Only undefined when the method failed, which was rethrown above
+    return result as T;
+  };
+
+  // Opens one span and transaction per DataSource, nested in the listed order
+  const openFrom = async (index: number): Promise<T> => {
+    if (index === dataSources.length) {
+      return await runAndComplete();
+    }
+
+    const dataSource = dataSources[index];
+    const existingContext =
+      getOrCreateTransactionContext(dataSource).getStore();
+    return await withTransactionSpan(
+      existingContext ? 'JOIN' : 'TRANSACTION',
+      {
+        dataSource,
+        className: caller.className,
+        methodName: caller.methodName,
+        propagation,
+        isolation: options.isolation,
+        readOnly: existingContext?.readOnly ?? false,
+      },
+      existingContext?.span,
+      async (span) => {
+        let participant: Participant;
+        try {
+          participant = await openParticipant(
+            dataSource,
+            index,
+            options,
+            twoPhaseCommit,
+          );
+        } catch (error) {
+          const opened = participants.filter((other) => other.queryRunner);
+          await Promise.all(opened.map(rollbackParticipant));
+          reportCompletion(opened, { error });
+          await completeParticipants(opened);
+          throw error;
+        }
+        participants.push(participant);
+
+        if (!participant.queryRunner) {
+          emit(participant, 'JOIN');
+          return await openFrom(index + 1);
+        }
+        participant.contextData.span = span;
+        const effectiveIsolation =
+          participant.contextData.transactionState.isolation;
+        if (effectiveIsolation !== options.isolation) {
+          emit(participant, 'ISOLATION_CHANGED', { effectiveIsolation });
+        }
+        emit(participant, 'BEGIN', { attempt: 1 });
+        return await openFrom(index + 1);
+      },
+    );
+  };
+
+  return await openFrom(0);
+}
+
+/**
+ * Runs `fn` in one transaction per DataSource (instances or registered names).
+ * `fn` receives the managers in the same order; transactions commit in that order,
+ * with two-phase commit when `twoPhaseCommit` is set and all of them run on Postgres, MySQL or MariaDB.
+ */
+export async function runInTransactions<T>(
+  dataSources: (DataSource | string)[],
+  fn: (managers: EntityManager[]) => Promise<T>,
+  options: MultiTransactionOptions = {},
+): Promise<T> {
+  const resolved = dataSources.map((dataSource) =>
+    typeof dataSource === 'string'
+      ? resolveRegisteredDataSource(dataSource)
+      : dataSource,
+  );
+
+  return await executeMultiTransactional(
+    resolved,
+    () =>
+      fn(
+        resolved.map(
+          (dataSource) =>
+            getOrCreateTransactionContext(dataSource).getStore()?.manager ??
+            dataSource.manager,
+        ),
+      ),
+    options,
+    { methodName: fn.name || 'runInTransactions' },
+  );
+}
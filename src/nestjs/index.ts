@@ -0,0 +1,19 @@
+export {
+  getTransactionalRepositoryToken,
+  InjectTransactionalRepository,
+} from './inject-transactional-repository.decorator';
+export { TransactionManagerService } from './transaction-manager.service';
+export {
+  TRANSACTIONAL_MODULE_OPTIONS,
+  TRANSACTIONAL_ROUTE_OPTIONS,
+} from './transactional.constants';
+export {
+  TransactionalInterceptor,
+  type TransactionalRouteOptions,
+} from './transactional.interceptor';
+export { TransactionalModule } from './transactional.module';
+export type {
+  TransactionalModuleAsyncOptions,
+  TransactionalModuleOptions,
+} from './transactional-module-options.interface';
+export { TransactionalRoute } from './transactional-route.decorator';
@@ -0,0 +1,36 @@
+import { Inject } from '@nestjs/common';
+import type { EntityTarget, ObjectLiteral } from 'typeorm';
+import { DEFAULT_DATA_SOURCE_NAME } from '../data-source-registry';
+
+function getEntityName(entity: EntityTarget<ObjectLiteral>): string {
+  if (typeof entity === 'function') {
+    return entity.name;
+  }
+  if (typeof entity === 'string') {
+    return entity;
+  }
+  return 'options' in entity ? entity.options.name : entity.name;
+}
+
+/**
+ * Injection token of the repository provided by TransactionalModule.forFeature
+ */
+export function getTransactionalRepositoryToken(
+  entity: EntityTarget<ObjectLiteral>,
+  dataSourceName: string = DEFAULT_DATA_SOURCE_NAME,
+): string {
+  const entityName = getEntityName(entity);
+  return dataSourceName === DEFAULT_DATA_SOURCE_NAME
+    ? `${entityName}TransactionalRepository`
+    : `${dataSourceName}_${entityName}TransactionalRepository`;
+}
+
+/**
+ * Injects a repository that follows the transaction active at call time
+ */
+export function InjectTransactionalRepository(
+  entity: EntityTarget<ObjectLiteral>,
+  dataSourceName?: string,
+) {
+  return Inject(getTransactionalRepositoryToken(entity, dataSourceName));
+}
@@ -0,0 +1,82 @@
+import { Inject, Injectable, type OnModuleDestroy } from '@nestjs/common';
+import type {
+  DataSource,
+  EntityManager,
+  EntityTarget,
+  ObjectLiteral,
+  Repository,
+} from 'typeorm';
+import { getCurrentTransactionManager } from '../context';
+import {
+  DEFAULT_DATA_SOURCE_NAME,
+  registerDataSource,
+  unregisterDataSource,
+} from '../data-source-registry';
+import {
+  runInTransaction,
+  type TransactionalOptions,
+} from '../run-in-transaction';
+import { TRANSACTIONAL_MODULE_OPTIONS } from './transactional.constants';
+import type { TransactionalModuleOptions } from './transactional-module-options.interface';
+
+@Injectable()
+export class TransactionManagerService implements OnModuleDestroy {
+  private readonly dataSources = new Map<string, DataSource>();
+
+  constructor(
+    @Inject(TRANSACTIONAL_MODULE_OPTIONS)
+    options: TransactionalModuleOptions,
+  ) {
+    if (options.dataSource) {
+      this.dataSources.set(DEFAULT_DATA_SOURCE_NAME, options.dataSource);
+    }
+    for (const [name, dataSource] of Object.entries(
+      options.dataSources ?? {},
+    )) {
+      this.dataSources.set(name, dataSource);
+    }
+
+    // Registered on construction so decorated methods work in other providers' lifecycle hooks
+    for (const [name, dataSource] of this.dataSources) {
+      registerDataSource(name, dataSource);
+    }
+  }
+
+  onModuleDestroy(): void {
+    for (const [name, dataSource] of this.dataSources) {
+      unregisterDataSource(name, dataSource);
+    }
+  }
+
+  getDataSource(name: string = DEFAULT_DATA_SOURCE_NAME): DataSource {
+    const dataSource = this.dataSources.get(name);
+
+    if (!dataSource) {
+      throw new Error(
+        `DataSource '${name}' is not registered in TransactionalModule.`,
+      );
+    }
+
+    return dataSource;
+  }
+
+  getManager(name?: string): EntityManager {
+    const dataSource = this.getDataSource(name);
+    return getCurrentTransactionManager(dataSource) ?? dataSource.manager;
+  }
+
+  getRepository<T extends ObjectLiteral>(
+    entity: EntityTarget<T>,
+    name?: string,
+  ): Repository<T> {
+    return this.getManager(name).getRepository(entity);
+  }
+
+  async runInTransaction<T>(
+    fn: (manager: EntityManager) => Promise<T>,
+    options: TransactionalOptions = {},
+    name: string | undefined = options.connectionName,
+  ): Promise<T> {
+    return await runInTransaction(this.getDataSource(name), fn, options);
+  }
+}
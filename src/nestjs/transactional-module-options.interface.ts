@@ -0,0 +1,18 @@
+import type { InjectionToken, ModuleMetadata } from '@nestjs/common';
+import type { DataSource } from 'typeorm';
+
+export interface TransactionalModuleOptions {
+  // Registered under the default name and used by `@Transactional()` without a `dataSource` property
+  dataSource?: DataSource;
+  // Additional DataSources registered by name
+  dataSources?: Record<string, DataSource>;
+}
+
+export interface TransactionalModuleAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  inject?: InjectionToken[];
+  useFactory: (
+    // biome-ignore lint/suspicious/noExplicitAny: Injected dependencies are declared by the caller
+    ...args: any[]
+  ) => TransactionalModuleOptions | Promise<TransactionalModuleOptions>;
+}
@@ -0,0 +1,18 @@
+import { applyDecorators, SetMetadata, UseInterceptors } from '@nestjs/common';
+import { TRANSACTIONAL_ROUTE_OPTIONS } from './transactional.constants';
+import {
+  TransactionalInterceptor,
+  type TransactionalRouteOptions,
+} from './transactional.interceptor';
+
+/**
+ * Wraps the whole route handler in one transaction that services called by the controller join
+ */
+export function TransactionalRoute(
+  options: TransactionalRouteOptions = {},
+): MethodDecorator {
+  return applyDecorators(
+    SetMetadata(TRANSACTIONAL_ROUTE_OPTIONS, options),
+    UseInterceptors(TransactionalInterceptor),
+  );
+}
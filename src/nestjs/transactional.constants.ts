@@ -0,0 +1,7 @@
+export const TRANSACTIONAL_MODULE_OPTIONS = Symbol(
+  'TRANSACTIONAL_MODULE_OPTIONS',
+);
+
+export const TRANSACTIONAL_ROUTE_OPTIONS = Symbol(
+  'TRANSACTIONAL_ROUTE_OPTIONS',
+);
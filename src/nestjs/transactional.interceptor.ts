@@ -0,0 +1,50 @@
+import {
+  type CallHandler,
+  type ExecutionContext,
+  Inject,
+  Injectable,
+  type NestInterceptor,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { from, lastValueFrom, type Observable } from 'rxjs';
+import type { TransactionalOptions } from '../run-in-transaction';
+import { TransactionManagerService } from './transaction-manager.service';
+import { TRANSACTIONAL_ROUTE_OPTIONS } from './transactional.constants';
+
+// `connectionName` selects the DataSource registered in TransactionalModule (default DataSource when omitted)
+export type TransactionalRouteOptions = TransactionalOptions;
+
+/**
+ * Runs route handlers marked with `@TransactionalRoute()` in one transaction.
+ * Commits once the handler's Promise/Observable completes and rolls back when it errors,
+ * before exception filters turn the error into an HTTP response.
+ */
+@Injectable()
+export class TransactionalInterceptor implements NestInterceptor {
+  // Explicit tokens keep injection working without emitted decorator metadata
+  constructor(
+    @Inject(Reflector) private readonly reflector: Reflector,
+    @Inject(TransactionManagerService)
+    private readonly transactionManager: TransactionManagerService,
+  ) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const options = this.reflector.get<TransactionalRouteOptions | undefined>(
+      TRANSACTIONAL_ROUTE_OPTIONS,
+      context.getHandler(),
+    );
+
+    if (!options) {
+      return next.handle();
+    }
+
+    // The handler runs when the Observable is subscribed, so subscribing inside the transaction
+    // puts the handler and every service it calls into the transaction context
+    return from(
+      this.transactionManager.runInTransaction(
+        () => lastValueFrom(next.handle(), { defaultValue: undefined }),
+        options,
+      ),
+    );
+  }
+}
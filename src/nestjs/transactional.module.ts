@@ -0,0 +1,65 @@
+import { type DynamicModule, Module, type Provider } from '@nestjs/common';
+import type { EntityTarget, ObjectLiteral } from 'typeorm';
+import { getTransactionalRepository } from '../transactional-repository';
+import { getTransactionalRepositoryToken } from './inject-transactional-repository.decorator';
+import { TransactionManagerService } from './transaction-manager.service';
+import { TRANSACTIONAL_MODULE_OPTIONS } from './transactional.constants';
+import type {
+  TransactionalModuleAsyncOptions,
+  TransactionalModuleOptions,
+} from './transactional-module-options.interface';
+
+@Module({})
+// biome-ignore lint/complexity/noStaticOnlyClass: Nest dynamic modules are configured through static methods
+export class TransactionalModule {
+  static forRoot(options: TransactionalModuleOptions): DynamicModule {
+    return {
+      module: TransactionalModule,
+      global: true,
+      providers: [
+        { provide: TRANSACTIONAL_MODULE_OPTIONS, useValue: options },
+        TransactionManagerService,
+      ],
+      exports: [TransactionManagerService],
+    };
+  }
+
+  static forRootAsync(options: TransactionalModuleAsyncOptions): DynamicModule {
+    return {
+      module: TransactionalModule,
+      global: true,
+      imports: options.imports ?? [],
+      providers: [
+        {
+          provide: TRANSACTIONAL_MODULE_OPTIONS,
+          useFactory: options.useFactory,
+          inject: options.inject ?? [],
+        },
+        TransactionManagerService,
+      ],
+      exports: [TransactionManagerService],
+    };
+  }
+
+  // Provides repositories for @InjectTransactionalRepository, on a DataSource registered with forRoot
+  static forFeature(
+    entities: EntityTarget<ObjectLiteral>[],
+    dataSourceName?: string,
+  ): DynamicModule {
+    const providers: Provider[] = entities.map((entity) => ({
+      provide: getTransactionalRepositoryToken(entity, dataSourceName),
+      useFactory: (transactionManager: TransactionManagerService) =>
+        getTransactionalRepository(
+          transactionManager.getDataSource(dataSourceName),
+          entity,
+        ),
+      inject: [TransactionManagerService],
+    }));
+
+    return {
+      module: TransactionalModule,
+      providers,
+      exports: providers,
+    };
+  }
+}
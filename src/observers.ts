@@ -0,0 +1,108 @@
+import type { DataSource } from 'typeorm';
+import type { IsolationLevel, Propagation } from './run-in-transaction';
+
+export type TransactionEventType =
+  | 'BEGIN'
+  | 'JOIN'
+  | 'SAVEPOINT'
+  | 'COMMIT'
+  | 'ROLLBACK'
+  | 'ERROR'
+  | 'ISOLATION_CHANGED';
+
+export interface TransactionEvent {
+  type: TransactionEventType;
+  dataSource: DataSource;
+  // Declaring class of the @Transactional method, unset for runInTransaction
+  className?: string;
+  methodName: string;
+  propagation: Propagation;
+  isolation?: IsolationLevel;
+  // Level the transaction starts with instead of `isolation`, set on ISOLATION_CHANGED (unset: database default)
+  effectiveIsolation?: IsolationLevel;
+  readOnly: boolean;
+  // Transactions and savepoints open in the current context, including this one
+  depth: number;
+  // Attempt of the boundary that owns the transaction, starting at 1
+  attempt?: number;
+  // Milliseconds since the boundary started, set on COMMIT, ROLLBACK and ERROR
+  duration?: number;
+  error?: unknown;
+}
+
+/**
+ * Receives lifecycle events of transactional boundaries.
+ * BEGIN and SAVEPOINT end with COMMIT or ROLLBACK; ERROR is emitted whenever the call throws,
+ * including joined calls. ISOLATION_CHANGED precedes BEGIN when the driver cannot run the requested level.
+ * Observer failures are ignored so they never affect the transaction.
+ */
+export interface TransactionObserver {
+  onBegin?(event: TransactionEvent): void;
+  onJoin?(event: TransactionEvent): void;
+  onSavepoint?(event: TransactionEvent): void;
+  onCommit?(event: TransactionEvent): void;
+  onRollback?(event: TransactionEvent): void;
+  onError?(event: TransactionEvent): void;
+  onIsolationChanged?(event: TransactionEvent): void;
+}
+
+const globalObservers = new Set<TransactionObserver>();
+const dataSourceObservers = new WeakMap<DataSource, Set<TransactionObserver>>();
+
+/**
+ * Registers `observer` for every DataSource, or only for `dataSource` when given
+ */
+export function registerTransactionObserver(
+  observer: TransactionObserver,
+  dataSource?: DataSource,
+): void {
+  if (!dataSource) {
+    globalObservers.add(observer);
+    return;
+  }
+
+  let observers = dataSourceObservers.get(dataSource);
+  if (!observers) {
+    observers = new Set();
+    dataSourceObservers.set(dataSource, observers);
+  }
+  observers.add(observer);
+}
+
+export function unregisterTransactionObserver(
+  observer: TransactionObserver,
+  dataSource?: DataSource,
+): void {
+  if (dataSource) {
+    dataSourceObservers.get(dataSource)?.delete(observer);
+  } else {
+    globalObservers.delete(observer);
+  }
+}
+
+const EVENT_HANDLERS: Record<TransactionEventType, keyof TransactionObserver> =
+  {
+    BEGIN: 'onBegin',
+    JOIN: 'onJoin',
+    SAVEPOINT: 'onSavepoint',
+    COMMIT: 'onCommit',
+    ROLLBACK: 'onRollback',
+    ERROR: 'onError',
+    ISOLATION_CHANGED: 'onIsolationChanged',
+  };
+
+export function notifyTransactionObservers(event: TransactionEvent): void {
+  const handler = EVENT_HANDLERS[event.type];
+  const observers = [
+    ...globalObservers,
+    ...(dataSourceObservers.get(event.dataSource) ?? []),
+  ];
+
+  for (const observer of observers) {
+    try {
+      observer[handler]?.(event);
+    } catch {
+      // Observers are diagnostics only
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export {
+  OutboxMessage,
+  type OutboxMessageStatus,
+} from './outbox-message.entity';
+export {
+  type OutboxPublisher,
+  OutboxRelay,
+  type OutboxRelayOptions,
+} from './outbox-relay';
+export { type OutboxEvent, publishToOutbox } from './publish-to-outbox';
@@ -0,0 +1,43 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+export type OutboxMessageStatus = 'PENDING' | 'SENT' | 'DEAD';
+
+/**
+ * Event written in the same transaction as the business data and published later by OutboxRelay.
+ * Add it to the entities of every DataSource that publishes to the outbox.
+ */
+@Entity({ name: 'outbox_messages' })
+@Index(['status', 'availableAt'])
+export class OutboxMessage {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column()
+  type: string;
+
+  @Column('simple-json')
+  payload: unknown;
+
+  @Column('simple-json', { nullable: true })
+  headers: Record<string, string> | null;
+
+  @Column({ type: 'varchar', length: 16, default: 'PENDING' })
+  status: OutboxMessageStatus;
+
+  // Publish attempts so far, including the successful one
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  // Earliest time the relay may publish the message, pushed back after failed attempts
+  @Column({ type: Date })
+  availableAt: Date;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: Date })
+  createdAt: Date;
+
+  @Column({ type: Date, nullable: true })
+  sentAt: Date | null;
+}
@@ -0,0 +1,163 @@
+import type { DataSource } from 'typeorm';
+import { runAfterCommit } from '../hooks';
+import { getRetryDelay, type RetryOptions } from '../retry';
+import { runInTransaction } from '../run-in-transaction';
+import { OutboxMessage } from './outbox-message.entity';
+
+export interface OutboxPublisher {
+  publish(message: OutboxMessage): Promise<void>;
+}
+
+export interface OutboxRelayOptions {
+  dataSource: DataSource;
+  publisher: OutboxPublisher;
+  // Messages claimed per batch (default 50)
+  batchSize?: number;
+  // Wait between polls when the outbox is drained, in milliseconds (default 1000)
+  pollInterval?: number;
+  // Publish attempts before a message is dead-lettered and the backoff between them
+  // (defaults: maxAttempts 5, initialDelay 1000, maxDelay 60000)
+  retry?: Omit<RetryOptions, 'shouldRetry'>;
+  // Called after a message was marked DEAD and that change committed
+  onDeadLetter?: (
+    message: OutboxMessage,
+    error: unknown,
+  ) => void | Promise<void>;
+  // Called when a poll fails (default: console.error)
+  onError?: (error: unknown) => void;
+}
+
+// Drivers whose SELECT ... FOR UPDATE supports SKIP LOCKED
+const SKIP_LOCKED_DRIVERS = [
+  'postgres',
+  'cockroachdb',
+  'mysql',
+  'mariadb',
+  'aurora-mysql',
+  'oracle',
+];
+
+/**
+ * Polls the outbox and hands pending messages to the publisher.
+ * Every batch runs in its own transaction; on drivers with row locks, rows claimed by another
+ * relay instance are skipped, so several instances can run side by side.
+ * Messages are delivered at least once and failed ones may be overtaken by later messages.
+ */
+export class OutboxRelay {
+  private readonly retry: Omit<RetryOptions, 'shouldRetry'>;
+  private running = false;
+  private timer?: ReturnType<typeof setTimeout>;
+  private currentPoll?: Promise<void>;
+
+  constructor(private readonly options: OutboxRelayOptions) {
+    this.retry = {
+      maxAttempts: 5,
+      initialDelay: 1000,
+      maxDelay: 60000,
+      ...options.retry,
+    };
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /**
+   * Stops polling and waits for the batch in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    clearTimeout(this.timer);
+    await this.currentPoll;
+  }
+
+  /**
+   * Claims and publishes one batch, returns the number of messages processed
+   */
+  async processBatch(): Promise<number> {
+    const { dataSource, publisher } = this.options;
+
+    return await runInTransaction(
+      dataSource,
+      async (manager) => {
+        const query = manager
+          .getRepository(OutboxMessage)
+          .createQueryBuilder('message')
+          .where('message.status = :status', { status: 'PENDING' })
+          .andWhere('message.availableAt <= :now', { now: new Date() })
+          .orderBy('message.availableAt', 'ASC')
+          .addOrderBy('message.createdAt', 'ASC')
+          .limit(this.options.batchSize ?? 50);
+
+        if (SKIP_LOCKED_DRIVERS.includes(dataSource.options.type)) {
+          query.setLock('pessimistic_write').setOnLocked('skip_locked');
+        }
+
+        const messages = await query.getMany();
+        for (const message of messages) {
+          message.attempts += 1;
+          try {
+            await publisher.publish(message);
+            message.status = 'SENT';
+            message.sentAt = new Date();
+            message.lastError = null;
+          } catch (error) {
+            this.recordFailure(message, error);
+          }
+          await manager.save(message);
+        }
+        return messages.length;
+      },
+      { propagation: 'REQUIRES_NEW' },
+    );
+  }
+
+  private recordFailure(message: OutboxMessage, error: unknown): void {
+    message.lastError = error instanceof Error ? error.message : String(error);
+
+    if (message.attempts >= (this.retry.maxAttempts ?? 5)) {
+      message.status = 'DEAD';
+      const { onDeadLetter } = this.options;
+      if (onDeadLetter) {
+        runAfterCommit(this.options.dataSource, () =>
+          onDeadLetter(message, error),
+        );
+      }
+      return;
+    }
+
+    message.availableAt = new Date(
+      Date.now() + getRetryDelay(this.retry, message.attempts),
+    );
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.currentPoll = this.poll();
+    }, delay);
+  }
+
+  private async poll(): Promise<void> {
+    let processed = 0;
+    try {
+      processed = await this.processBatch();
+    } catch (error) {
+      const onError =
+        this.options.onError ??
+        ((cause: unknown) => console.error('Outbox relay failed:', cause));
+      onError(error);
+    }
+
+    if (this.running) {
+      // Keep draining while batches come back full
+      const batchSize = this.options.batchSize ?? 50;
+      this.schedule(
+        processed >= batchSize ? 0 : (this.options.pollInterval ?? 1000),
+      );
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import type { DataSource } from 'typeorm';
+import { getOrCreateTransactionContext } from '../context';
+import { IllegalTransactionStateError } from '../errors';
+import { OutboxMessage } from './outbox-message.entity';
+
+export interface OutboxEvent {
+  type: string;
+  payload: unknown;
+  headers?: Record<string, string>;
+  // Delay publishing until this time (default: as soon as the transaction commits)
+  availableAt?: Date;
+}
+
+/**
+ * Writes the event to the outbox through the current transaction's manager,
+ * so it is only published when the surrounding transaction commits
+ */
+export async function publishToOutbox(
+  dataSource: DataSource,
+  event: OutboxEvent,
+): Promise<OutboxMessage> {
+  const contextData = getOrCreateTransactionContext(dataSource).getStore();
+
+  if (!contextData) {
+    throw new IllegalTransactionStateError(
+      'Publishing to the outbox requires an active transaction.',
+    );
+  }
+
+  const now = new Date();
+  const message = new OutboxMessage();
+  message.type = event.type;
+  message.payload = event.payload;
+  message.headers = event.headers ?? null;
+  message.status = 'PENDING';
+  message.attempts = 0;
+  message.availableAt = event.availableAt ?? now;
+  message.lastError = null;
+  message.createdAt = now;
+  message.sentAt = null;
+
+  return await contextData.manager.save(message);
+}
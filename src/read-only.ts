@@ -0,0 +1,89 @@
+import type {
+  DataSource,
+  EntityManager,
+  EntitySubscriberInterface,
+  InsertEvent,
+  QueryRunner,
+  RemoveEvent,
+  SoftRemoveEvent,
+  UpdateEvent,
+} from 'typeorm';
+import { getOrCreateTransactionContext } from './context';
+import { ReadOnlyTransactionError } from './errors';
+
+/**
+ * Rejects entity writes issued through the query runner of the active read-only transaction.
+ * Covers drivers without a native read-only mode and gives a clearer error on the others.
+ */
+class ReadOnlyTransactionSubscriber implements EntitySubscriberInterface {
+  beforeInsert(event: InsertEvent<unknown>): void {
+    this.assertWritable(event.connection, event.queryRunner, 'insert');
+  }
+
+  beforeUpdate(event: UpdateEvent<unknown>): void {
+    this.assertWritable(event.connection, event.queryRunner, 'update');
+  }
+
+  beforeRemove(event: RemoveEvent<unknown>): void {
+    this.assertWritable(event.connection, event.queryRunner, 'delete');
+  }
+
+  beforeSoftRemove(event: SoftRemoveEvent<unknown>): void {
+    this.assertWritable(event.connection, event.queryRunner, 'soft delete');
+  }
+
+  private assertWritable(
+    dataSource: DataSource,
+    queryRunner: QueryRunner,
+    operation: string,
+  ): void {
+    const contextData = getOrCreateTransactionContext(dataSource).getStore();
+
+    if (
+      contextData?.readOnly &&
+      contextData.manager.queryRunner === queryRunner
+    ) {
+      throw new ReadOnlyTransactionError(
+        `Cannot ${operation} inside a read-only transaction.`,
+      );
+    }
+  }
+}
+
+const guardedDataSources = new WeakSet<DataSource>();
+
+export function ensureReadOnlyGuard(dataSource: DataSource): void {
+  if (guardedDataSources.has(dataSource)) {
+    return;
+  }
+  dataSource.subscribers.push(new ReadOnlyTransactionSubscriber());
+  guardedDataSources.add(dataSource);
+}
+
+/**
+ * Drivers that set the access mode inside an open transaction
+ */
+export async function applyReadOnly(manager: EntityManager): Promise<void> {
+  switch (manager.connection.options.type) {
+    case 'postgres':
+    case 'cockroachdb':
+      await manager.query('SET TRANSACTION READ ONLY');
+      break;
+  }
+}
+
+/**
+ * MySQL only accepts the access mode for the next transaction on the connection,
+ * so it has to be set before the transaction starts
+ */
+export function requiresReadOnlyBeforeStart(dataSource: DataSource): boolean {
+  return (
+    dataSource.options.type === 'mysql' || dataSource.options.type === 'mariadb'
+  );
+}
+
+export async function setNextTransactionReadOnly(
+  queryRunner: QueryRunner,
+): Promise<void> {
+  await queryRunner.query('SET TRANSACTION READ ONLY');
+}
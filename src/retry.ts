@@ -0,0 +1,87 @@
+export interface RetryOptions {
+  // Total number of attempts including the first one (default 3)
+  maxAttempts?: number;
+  // Delay before the first retry in milliseconds (default 50)
+  initialDelay?: number;
+  // Upper bound for the delay between attempts in milliseconds (default 1000)
+  maxDelay?: number;
+  // Factor applied to the delay after every attempt (default 2)
+  backoffMultiplier?: number;
+  // Randomize each delay between 0 and the computed backoff (default true)
+  jitter?: boolean;
+  // Decides whether a failed attempt is retried (default isRetryableTransactionError)
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+interface DriverErrorLike {
+  code?: string | number;
+  errno?: number;
+  driverError?: DriverErrorLike;
+}
+
+function getDriverError(error: unknown): DriverErrorLike | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  // TypeORM wraps driver errors in QueryFailedError and keeps the original on driverError
+  const wrapped = error as DriverErrorLike;
+  return wrapped.driverError ?? wrapped;
+}
+
+/**
+ * Postgres serialization failures (40001) and deadlocks (40P01)
+ */
+export function isPostgresRetryableError(error: unknown): boolean {
+  const code = getDriverError(error)?.code;
+  return code === '40001' || code === '40P01';
+}
+
+/**
+ * MySQL / MariaDB deadlocks and lock wait timeouts
+ */
+export function isMysqlRetryableError(error: unknown): boolean {
+  const driverError = getDriverError(error);
+  return (
+    driverError?.code === 'ER_LOCK_DEADLOCK' ||
+    driverError?.code === 'ER_LOCK_WAIT_TIMEOUT' ||
+    driverError?.errno === 1213 ||
+    driverError?.errno === 1205
+  );
+}
+
+/**
+ * SQLite busy errors, including extended codes such as SQLITE_BUSY_SNAPSHOT
+ */
+export function isSqliteRetryableError(error: unknown): boolean {
+  const code = getDriverError(error)?.code;
+  return typeof code === 'string' && code.startsWith('SQLITE_BUSY');
+}
+
+export function isRetryableTransactionError(error: unknown): boolean {
+  return (
+    isPostgresRetryableError(error) ||
+    isMysqlRetryableError(error) ||
+    isSqliteRetryableError(error)
+  );
+}
+
+export function shouldRetryTransaction(
+  retry: RetryOptions,
+  error: unknown,
+  attempt: number,
+): boolean {
+  if (attempt >= (retry.maxAttempts ?? 3)) {
+    return false;
+  }
+  const shouldRetry = retry.shouldRetry ?? isRetryableTransactionError;
+  return shouldRetry(error, attempt);
+}
+
+export function getRetryDelay(retry: RetryOptions, attempt: number): number {
+  const backoff = Math.min(
+    (retry.initialDelay ?? 50) *
+      (retry.backoffMultiplier ?? 2) ** (attempt - 1),
+    retry.maxDelay ?? 1000,
+  );
+  return retry.jitter === false ? backoff : Math.random() * backoff;
+}
@@ -0,0 +1,34 @@
+// biome-ignore lint/suspicious/noExplicitAny: Error constructors take arbitrary arguments
+type ErrorClass = new (...args: any[]) => Error;
+
+type ErrorPredicate = (error: unknown) => boolean;
+
+/**
+ * Error class or predicate used to decide whether an error rolls the transaction back
+ */
+export type RollbackRule = ErrorClass | ErrorPredicate;
+
+function isErrorClass(rule: RollbackRule): rule is ErrorClass {
+  return rule === Error || rule.prototype instanceof Error;
+}
+
+function matchesAny(error: unknown, rules: RollbackRule[] = []): boolean {
+  return rules.some((rule) =>
+    isErrorClass(rule) ? error instanceof rule : rule(error),
+  );
+}
+
+/**
+ * Any error rolls back by default. `rollbackFor` takes precedence over `noRollbackFor`,
+ * so a subclass can be rolled back even when its parent class is excluded.
+ */
+export function shouldRollbackOn(
+  error: unknown,
+  rollbackFor?: RollbackRule[],
+  noRollbackFor?: RollbackRule[],
+): boolean {
+  if (matchesAny(error, rollbackFor)) {
+    return true;
+  }
+  return !matchesAny(error, noRollbackFor);
+}
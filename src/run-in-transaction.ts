@@ -0,0 +1,594 @@
+import type { DataSource, EntityManager } from 'typeorm';
+import {
+  getCurrentTransactionManager,
+  getOrCreateTransactionContext,
+  getTestTransactionManager,
+  type TransactionContextData,
+} from './context';
+import {
+  IllegalTransactionStateError,
+  TransactionTimeoutError,
+  UnexpectedRollbackError,
+} from './errors';
+import {
+  createTransactionSynchronizations,
+  triggerAfterCompletion,
+  triggerBeforeCommit,
+} from './hooks';
+import {
+  type IsolationFallbackPolicy,
+  resolveIsolationLevel,
+} from './isolation';
+import { validateJoin } from './join-validation';
+import {
+  notifyTransactionObservers,
+  type TransactionEvent,
+  type TransactionEventType,
+} from './observers';
+import {
+  applyReadOnly,
+  ensureReadOnlyGuard,
+  requiresReadOnlyBeforeStart,
+  setNextTransactionReadOnly,
+} from './read-only';
+import {
+  getRetryDelay,
+  type RetryOptions,
+  shouldRetryTransaction,
+} from './retry';
+import { type RollbackRule, shouldRollbackOn } from './rollback-rules';
+import {
+  applyStatementTimeout,
+  ensureTimeoutGuard,
+  resetStatementTimeout,
+  runWithDeadline,
+} from './timeout';
+import {
+  setTransactionOutcome,
+  type TransactionSpan,
+  withTransactionSpan,
+} from './tracing';
+import {
+  createTransactionState,
+  createUnexpectedRollbackError,
+  TransactionStatus,
+} from './transaction-status';
+
+export type IsolationLevel =
+  | 'READ UNCOMMITTED'
+  | 'READ COMMITTED'
+  | 'REPEATABLE READ'
+  | 'SERIALIZABLE';
+
+export type Propagation =
+  | 'REQUIRED'
+  | 'REQUIRES_NEW'
+  | 'NESTED'
+  | 'SUPPORTS'
+  | 'MANDATORY'
+  | 'NEVER'
+  | 'NOT_SUPPORTED';
+
+// Propagation modes that run inside an existing transaction when there is one
+const JOINING_PROPAGATIONS: Propagation[] = [
+  'REQUIRED',
+  'SUPPORTS',
+  'MANDATORY',
+  'NESTED',
+];
+
+export interface TransactionalOptions {
+  isolation?: IsolationLevel;
+  // What to do when the driver does not support `isolation` (default: setIsolationFallbackPolicy, 'upgrade')
+  isolationFallback?: IsolationFallbackPolicy;
+  propagation?: Propagation;
+  // Errors that roll back even when they also match noRollbackFor
+  rollbackFor?: RollbackRule[];
+  // Errors that commit the work done so far and are then rethrown unchanged
+  noRollbackFor?: RollbackRule[];
+  // Retry failed attempts at the boundary that owns the transaction
+  retry?: RetryOptions;
+  // Roll back with TransactionTimeoutError when the method runs longer (milliseconds)
+  timeout?: number;
+  // Start the transaction in read-only mode and reject writes through its manager
+  readOnly?: boolean;
+  // Registered DataSource to use instead of the service's own (ignored by runInTransaction, which is given one)
+  connectionName?: string;
+  // Registered DataSources to open one transaction on each, committed in this order (see runInTransactions)
+  dataSources?: string[];
+  // Prepare every transaction before committing multiple DataSources: PREPARE TRANSACTION on Postgres, XA on MySQL and MariaDB (default: false)
+  twoPhaseCommit?: boolean;
+  // Throw UnexpectedRollbackError when a participant marked the transaction rollback-only (default: true)
+  throwOnUnexpectedRollback?: boolean;
+}
+
+// Identifies the boundary in error messages and observer events
+export interface TransactionCaller {
+  className?: string;
+  methodName: string;
+}
+
+// Rolls back a transaction marked rollback-only while the boundary still returns the method's result
+class RollbackOnlySignal {
+  constructor(readonly result: unknown) {}
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function startTransaction<T>(
+  dataSource: DataSource,
+  isolationLevel: IsolationLevel | undefined,
+  readOnly: boolean,
+  executeTransaction: (manager: EntityManager) => Promise<T>,
+): Promise<T> {
+  const testManager = getTestTransactionManager(dataSource);
+  if (testManager?.queryRunner) {
+    // Inside a test transaction every new transaction becomes a savepoint so teardown can roll it back
+    const queryRunner = testManager.queryRunner;
+    await queryRunner.startTransaction();
+    try {
+      const result = await executeTransaction(testManager);
+      await queryRunner.commitTransaction();
+      return result;
+    } catch (error) {
+      await queryRunner.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  if (readOnly && requiresReadOnlyBeforeStart(dataSource)) {
+    // Reserve the connection so the access mode applies to this transaction
+    const queryRunner = dataSource.createQueryRunner();
+    try {
+      await setNextTransactionReadOnly(queryRunner);
+      return isolationLevel
+        ? await queryRunner.manager.transaction(
+            isolationLevel,
+            executeTransaction,
+          )
+        : await queryRunner.manager.transaction(executeTransaction);
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  return isolationLevel
+    ? await dataSource.transaction(isolationLevel, executeTransaction)
+    : await dataSource.transaction(executeTransaction);
+}
+
+async function runInSavepoint<T>(
+  contextData: TransactionContextData,
+  fn: () => Promise<T>,
+  options: TransactionalOptions,
+  name: string,
+): Promise<T> {
+  const queryRunner = contextData.manager.queryRunner;
+
+  if (!queryRunner) {
+    throw new Error(
+      'NESTED propagation requires a transaction bound to a query runner.',
+    );
+  }
+
+  // The query runner is already inside a transaction, so starting another one creates a savepoint
+  await queryRunner.startTransaction();
+  try {
+    const result = await fn();
+    const state = contextData.transactionState;
+    if (state.rollbackOnly) {
+      throw (
+        createUnexpectedRollbackError(
+          state,
+          name,
+          options.throwOnUnexpectedRollback,
+        ) ?? new RollbackOnlySignal(result)
+      );
+    }
+    await queryRunner.commitTransaction();
+    return result;
+  } catch (error) {
+    if (rollsBackSavepoint(error, options)) {
+      await queryRunner.rollbackTransaction();
+    } else {
+      await queryRunner.commitTransaction();
+    }
+    throw error;
+  }
+}
+
+function rollsBackSavepoint(
+  error: unknown,
+  options: TransactionalOptions,
+): boolean {
+  return (
+    error instanceof RollbackOnlySignal ||
+    error instanceof UnexpectedRollbackError ||
+    shouldRollbackOn(error, options.rollbackFor, options.noRollbackFor)
+  );
+}
+
+/**
+ * Applies propagation, isolation, rollback rules, hooks and observers around `fn`
+ */
+export async function executeTransactional<T>(
+  dataSource: DataSource,
+  fn: (manager: EntityManager) => Promise<T>,
+  options: TransactionalOptions,
+  caller: TransactionCaller,
+): Promise<T> {
+  // Check for existing transaction in the context for this DataSource
+  const context = getOrCreateTransactionContext(dataSource);
+  const existingContext = context.getStore();
+  const propagation = options.propagation ?? 'REQUIRED';
+  const name = caller.className
+    ? `${caller.className}.${caller.methodName}`
+    : caller.methodName;
+  const startedAt = Date.now();
+  const invoke = () =>
+    fn(getCurrentTransactionManager(dataSource) ?? dataSource.manager);
+
+  const emit = (
+    type: TransactionEventType,
+    details: Pick<TransactionEvent, 'depth' | 'readOnly'> &
+      Partial<TransactionEvent>,
+  ) =>
+    notifyTransactionObservers({
+      type,
+      dataSource,
+      className: caller.className,
+      methodName: caller.methodName,
+      propagation,
+      isolation: options.isolation,
+      ...details,
+    });
+
+  const spanDetails = {
+    dataSource,
+    className: caller.className,
+    methodName: caller.methodName,
+    propagation,
+    isolation: options.isolation,
+  };
+
+  // Joined calls and savepoints report to observers and tracing like the boundaries that start a transaction
+  const runInExisting = async (
+    existing: TransactionContextData,
+    savepoint: boolean,
+  ): Promise<T> =>
+    await withTransactionSpan(
+      savepoint ? 'SAVEPOINT' : 'JOIN',
+      { ...spanDetails, readOnly: existing.readOnly },
+      existing.span,
+      async (span) => {
+        const depth = savepoint ? existing.depth + 1 : existing.depth;
+        const details = { depth, readOnly: existing.readOnly };
+        // A savepoint keeps its own rollback-only mark so it can roll back alone
+        const transactionState = savepoint
+          ? createTransactionState(
+              existing.transactionState.isolation,
+              existing.transactionState.id,
+            )
+          : existing.transactionState;
+        const contextData: TransactionContextData = {
+          ...existing,
+          depth,
+          span: savepoint ? span : existing.span,
+          transactionState,
+          status: new TransactionStatus(
+            transactionState,
+            false,
+            savepoint,
+            propagation,
+            depth,
+            existing.readOnly,
+          ),
+        };
+        emit(savepoint ? 'SAVEPOINT' : 'JOIN', details);
+        try {
+          const result = await context.run(contextData, () =>
+            savepoint
+              ? runInSavepoint(contextData, invoke, options, name)
+              : invoke(),
+          );
+          if (savepoint) {
+            emit('COMMIT', { ...details, duration: Date.now() - startedAt });
+            setTransactionOutcome(span, 'COMMITTED');
+          }
+          return result;
+        } catch (error) {
+          if (error instanceof RollbackOnlySignal) {
+            emit('ROLLBACK', { ...details, duration: Date.now() - startedAt });
+            setTransactionOutcome(span, 'ROLLED_BACK');
+            return error.result as T;
+          }
+          const failure = {
+            ...details,
+            duration: Date.now() - startedAt,
+            error,
+          };
+          emit('ERROR', failure);
+          if (savepoint) {
+            const outcome = rollsBackSavepoint(error, options)
+              ? 'ROLLED_BACK'
+              : 'COMMITTED';
+            emit(outcome === 'ROLLED_BACK' ? 'ROLLBACK' : 'COMMIT', failure);
+            setTransactionOutcome(span, outcome);
+          }
+          throw error;
+        }
+      },
+    );
+
+  if (
+    existingContext?.readOnly &&
+    options.readOnly === false &&
+    JOINING_PROPAGATIONS.includes(propagation)
+  ) {
+    throw new IllegalTransactionStateError(
+      `${name} requires a read-write transaction but the existing transaction is read-only.`,
+      propagation,
+    );
+  }
+  if (existingContext && JOINING_PROPAGATIONS.includes(propagation)) {
+    validateJoin(existingContext, options, name, propagation);
+  }
+
+  switch (propagation) {
+    case 'SUPPORTS':
+      // Join the existing transaction if there is one, otherwise run without a transaction
+      return existingContext
+        ? await runInExisting(existingContext, false)
+        : await invoke();
+    case 'MANDATORY':
+      if (!existingContext) {
+        throw new IllegalTransactionStateError(
+          `No existing transaction found for ${name} marked with propagation 'MANDATORY'.`,
+          propagation,
+        );
+      }
+      return await runInExisting(existingContext, false);
+    case 'NEVER':
+      if (existingContext) {
+        throw new IllegalTransactionStateError(
+          `Existing transaction found for ${name} marked with propagation 'NEVER'.`,
+          propagation,
+        );
+      }
+      return await invoke();
+    case 'NOT_SUPPORTED':
+      // Suspend the current transaction so repositories fall back to the default manager
+      return await context.exit(invoke);
+    case 'NESTED':
+      if (existingContext) {
+        // Run inside a savepoint of the existing transaction so only this call's work is rolled back on error
+        return await runInExisting(existingContext, true);
+      }
+      break;
+    case 'REQUIRED':
+      if (existingContext) {
+        // Join the existing transaction
+        return await runInExisting(existingContext, false);
+      }
+      break;
+  }
+
+  const isolationLevel = resolveIsolationLevel(
+    dataSource,
+    options.isolation,
+    options.isolationFallback,
+  );
+  // Session settings applied inside a test savepoint would outlive it, so they are skipped
+  const inTestTransaction = getTestTransactionManager(dataSource) !== undefined;
+  // REQUIRES_NEW keeps counting the suspended transaction
+  const depth = (existingContext?.depth ?? 0) + 1;
+  if (isolationLevel !== options.isolation) {
+    emit('ISOLATION_CHANGED', {
+      depth,
+      readOnly: options.readOnly ?? false,
+      effectiveIsolation: isolationLevel,
+    });
+  }
+
+  const runAttempts = async (span: TransactionSpan | undefined): Promise<T> => {
+    // Every attempt re-runs the whole function on a fresh transaction
+    for (let attempt = 1; ; attempt++) {
+      const synchronizations = createTransactionSynchronizations();
+      const transactionState = createTransactionState(isolationLevel);
+      // Set when the method fails with an error that must not roll back
+      let committedError: { error: unknown } | undefined;
+      const { timeout } = options;
+      const deadline = timeout !== undefined ? Date.now() + timeout : undefined;
+      const readOnly = options.readOnly ?? false;
+
+      if (readOnly) {
+        ensureReadOnlyGuard(dataSource);
+      }
+
+      const executeTransaction = async (manager: EntityManager) => {
+        // Set the transaction context using AsyncLocalStorage per DataSource
+        const contextData: TransactionContextData = {
+          manager,
+          dataSource,
+          synchronizations,
+          deadline,
+          expiry: deadline !== undefined ? {} : undefined,
+          readOnly,
+          depth,
+          span,
+          transactionState,
+          status: new TransactionStatus(
+            transactionState,
+            true,
+            false,
+            propagation,
+            depth,
+            readOnly,
+          ),
+        };
+        return await context.run(contextData, async () => {
+          if (readOnly && !inTestTransaction) {
+            await applyReadOnly(manager);
+          }
+
+          let result: T | undefined;
+          try {
+            if (
+              timeout !== undefined &&
+              deadline !== undefined &&
+              contextData.expiry
+            ) {
+              if (manager.queryRunner) {
+                ensureTimeoutGuard(manager.queryRunner);
+              }
+              const previousTimeout = inTestTransaction
+                ? undefined
+                : await applyStatementTimeout(manager, deadline - Date.now());
+              try {
+                result = await runWithDeadline(
+                  invoke(),
+                  deadline,
+                  timeout,
+                  name,
+                  contextData.expiry,
+                );
+              } finally {
+                // Outside the expired context, which the guard rejects
+                await context
+                  .exit(() => resetStatementTimeout(manager, previousTimeout))
+                  .catch(() => {});
+              }
+            } else {
+              result = await invoke();
+            }
+          } catch (error) {
+            if (
+              error instanceof TransactionTimeoutError ||
+              shouldRollbackOn(
+                error,
+                options.rollbackFor,
+                options.noRollbackFor,
+              )
+            ) {
+              throw error;
+            }
+            committedError = { error };
+          }
+          if (transactionState.rollbackOnly) {
+            // An error that must not roll back is still rethrown unchanged after the rollback
+            throw (
+              committedError?.error ??
+              createUnexpectedRollbackError(
+                transactionState,
+                name,
+                options.throwOnUnexpectedRollback,
+              ) ??
+              new RollbackOnlySignal(result)
+            );
+          }
+          await triggerBeforeCommit(synchronizations);
+          return result;
+        });
+      };
+
+      const attemptStartedAt = Date.now();
+      const details = { depth, readOnly, attempt };
+      emit('BEGIN', details);
+
+      let result: T | undefined;
+      try {
+        result = await startTransaction(
+          dataSource,
+          isolationLevel,
+          readOnly,
+          executeTransaction,
+        );
+      } catch (error) {
+        if (error instanceof RollbackOnlySignal) {
+          emit('ROLLBACK', {
+            ...details,
+            duration: Date.now() - attemptStartedAt,
+          });
+          setTransactionOutcome(span, 'ROLLED_BACK');
+          await triggerAfterCompletion(synchronizations, 'ROLLED_BACK');
+          return error.result as T;
+        }
+        const failure = {
+          ...details,
+          duration: Date.now() - attemptStartedAt,
+          error,
+        };
+        emit('ERROR', failure);
+        emit('ROLLBACK', failure);
+        await triggerAfterCompletion(synchronizations, 'ROLLED_BACK');
+        if (
+          options.retry &&
+          shouldRetryTransaction(options.retry, error, attempt)
+        ) {
+          span?.addEvent('transaction.retry', {
+            'transaction.attempt': attempt,
+          });
+          await sleep(getRetryDelay(options.retry, attempt));
+          continue;
+        }
+        setTransactionOutcome(span, 'ROLLED_BACK');
+        throw error;
+      }
+
+      const duration = Date.now() - attemptStartedAt;
+      if (committedError) {
+        emit('ERROR', { ...details, duration, error: committedError.error });
+      }
+      emit('COMMIT', { ...details, duration, error: committedError?.error });
+      setTransactionOutcome(span, 'COMMITTED');
+      await triggerAfterCompletion(synchronizations, 'COMMITTED');
+      if (committedError) {
+        throw committedError.error;
+      }
+      // Only undefined when the method failed, which was rethrown above
+      return result as T;
+    }
+  };
+
+  return await withTransactionSpan(
+    'TRANSACTION',
+    { ...spanDetails, readOnly: options.readOnly ?? false },
+    undefined,
+    runAttempts,
+  );
+}
+
+/**
+ * Runs `fn` with the same propagation, isolation and hooks as `@Transactional`.
+ * `fn` receives the transactional manager, or the default manager when it runs without a transaction.
+ */
+export async function runInTransaction<T>(
+  dataSource: DataSource,
+  fn: (manager: EntityManager) => Promise<T>,
+  options: TransactionalOptions = {},
+): Promise<T> {
+  return await executeTransactional(dataSource, fn, options, {
+    methodName: fn.name || 'runInTransaction',
+  });
+}
+
+/**
+ * Returns a function that runs `fn` through `runInTransaction` on every call
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Function arguments are generic
+export function wrapInTransaction<TArgs extends any[], TResult>(
+  dataSource: DataSource,
+  fn: (...args: TArgs) => Promise<TResult>,
+  options: TransactionalOptions = {},
+): (...args: TArgs) => Promise<TResult> {
+  return async function (this: unknown, ...args: TArgs) {
+    return await executeTransactional(
+      dataSource,
+      () => fn.apply(this, args),
+      options,
+      { methodName: fn.name || 'wrapInTransaction' },
+    );
+  };
+}
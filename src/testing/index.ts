@@ -0,0 +1,5 @@
+export {
+  beginTestTransaction,
+  rollbackTestTransaction,
+  useTestTransactions,
+} from './test-transaction';
@@ -0,0 +1,69 @@
+import type { DataSource, EntityManager } from 'typeorm';
+import {
+  getTestTransactionManager,
+  setTestTransactionManager,
+} from '../context';
+import { IllegalTransactionStateError } from '../errors';
+
+// Jest globals, declared here so the library does not depend on @types/jest
+declare const beforeEach: (fn: () => Promise<unknown>) => void;
+declare const afterEach: (fn: () => Promise<unknown>) => void;
+
+const activeDataSources = new Set<DataSource>();
+
+/**
+ * Opens an outer transaction that every transactional call on `dataSource` runs inside.
+ * Transaction boundaries, including REQUIRES_NEW, become savepoints until
+ * `rollbackTestTransaction` discards everything.
+ */
+export async function beginTestTransaction(
+  dataSource: DataSource,
+): Promise<EntityManager> {
+  if (getTestTransactionManager(dataSource)) {
+    throw new IllegalTransactionStateError(
+      'A test transaction is already active for this DataSource.',
+    );
+  }
+
+  const queryRunner = dataSource.createQueryRunner();
+  await queryRunner.connect();
+  await queryRunner.startTransaction();
+  setTestTransactionManager(dataSource, queryRunner.manager);
+  activeDataSources.add(dataSource);
+  return queryRunner.manager;
+}
+
+/**
+ * Rolls back the test transaction of `dataSource`, or of every DataSource when omitted
+ */
+export async function rollbackTestTransaction(
+  dataSource?: DataSource,
+): Promise<void> {
+  const dataSources = dataSource ? [dataSource] : [...activeDataSources];
+
+  for (const target of dataSources) {
+    const queryRunner = getTestTransactionManager(target)?.queryRunner;
+    setTestTransactionManager(target, undefined);
+    activeDataSources.delete(target);
+    if (!queryRunner) {
+      continue;
+    }
+
+    try {
+      // Also unwinds savepoints left open by a test that did not finish
+      while (queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+    } finally {
+      await queryRunner.release();
+    }
+  }
+}
+
+/**
+ * Registers Jest hooks that wrap every test of the current suite in a test transaction
+ */
+export function useTestTransactions(dataSource: DataSource): void {
+  beforeEach(() => beginTestTransaction(dataSource));
+  afterEach(() => rollbackTestTransaction(dataSource));
+}
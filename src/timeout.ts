@@ -0,0 +1,99 @@
+import type { EntityManager, QueryRunner } from 'typeorm';
+import { getOrCreateTransactionContext } from './context';
+import { TransactionTimeoutError } from './errors';
+
+/**
+ * Sets a driver-level statement timeout so the database cancels a running query.
+ * Returns the previous MySQL session value, which resetStatementTimeout restores.
+ */
+export async function applyStatementTimeout(
+  manager: EntityManager,
+  timeout: number,
+): Promise<number | undefined> {
+  const ms = Math.max(Math.ceil(timeout), 1);
+
+  switch (manager.connection.options.type) {
+    case 'postgres':
+      // SET LOCAL is scoped to the transaction and reset on commit or rollback
+      await manager.query(`SET LOCAL statement_timeout = ${ms}`);
+      return undefined;
+    case 'mysql': {
+      // max_execution_time only applies to read-only SELECT statements
+      const [row] = await manager.query(
+        'SELECT @@SESSION.max_execution_time AS previous',
+      );
+      await manager.query(`SET SESSION max_execution_time = ${ms}`);
+      return Number(row.previous);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Restores the session-scoped statement timeout saved by applyStatementTimeout
+ * before the connection returns to the pool
+ */
+export async function resetStatementTimeout(
+  manager: EntityManager,
+  previous: number | undefined,
+): Promise<void> {
+  if (manager.connection.options.type === 'mysql' && previous !== undefined) {
+    await manager.query(`SET SESSION max_execution_time = ${previous}`);
+  }
+}
+
+const guardedQueryRunners = new WeakSet<QueryRunner>();
+
+/**
+ * Makes the query runner reject queries issued from a transaction context that expired.
+ * The abandoned call keeps running after the rollback, and some drivers (e.g. SQLite)
+ * still accept queries on a released query runner, which would save them outside any transaction.
+ */
+export function ensureTimeoutGuard(queryRunner: QueryRunner): void {
+  if (guardedQueryRunners.has(queryRunner)) {
+    return;
+  }
+  const query = queryRunner.query as (...args: unknown[]) => Promise<unknown>;
+  queryRunner.query = function (this: QueryRunner, ...args: unknown[]) {
+    const error = getOrCreateTransactionContext(this.connection).getStore()
+      ?.expiry?.error;
+    return error ? Promise.reject(error) : query.apply(this, args);
+  } as QueryRunner['query'];
+  guardedQueryRunners.add(queryRunner);
+}
+
+/**
+ * Rejects with TransactionTimeoutError once the deadline passes and records the error in `expiry`,
+ * so later queries of the context fail too. The underlying promise keeps running, its outcome is ignored.
+ */
+export async function runWithDeadline<T>(
+  promise: Promise<T>,
+  deadline: number,
+  timeout: number,
+  name: string,
+  expiry: { error?: TransactionTimeoutError },
+): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => {
+        expiry.error = new TransactionTimeoutError(
+          `Transaction for ${name} timed out after ${timeout}ms.`,
+          timeout,
+        );
+        reject(expiry.error);
+      },
+      Math.max(deadline - Date.now(), 0),
+    );
+  });
+
+  // Avoid an unhandled rejection when the abandoned call fails after the timeout
+  promise.catch(() => {});
+
+  try {
+    return await Promise.race([promise, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
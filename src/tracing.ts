@@ -0,0 +1,146 @@
+import type { DataSource } from 'typeorm';
+import { getRegisteredDataSourceName } from './data-source-registry';
+import type { TransactionCompletionStatus } from './hooks';
+import type { IsolationLevel, Propagation } from './run-in-transaction';
+
+type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Subset of the OpenTelemetry Span API used for transaction spans
+ */
+export interface TransactionSpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  recordException(exception: Error | string): unknown;
+  // Codes follow OpenTelemetry SpanStatusCode: 1 = OK, 2 = ERROR
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Subset of the OpenTelemetry Tracer API, so an OpenTelemetry tracer can be passed as is.
+ * The span must be active while `fn` runs so query spans become its children.
+ */
+export interface TransactionTracer {
+  startActiveSpan<F extends (span: TransactionSpan) => unknown>(
+    name: string,
+    options: { attributes?: SpanAttributes },
+    fn: F,
+  ): ReturnType<F>;
+}
+
+export interface TransactionTracingOptions {
+  // Trace joined calls as child spans or as events on the transaction span (default: 'span')
+  joinedCalls?: 'span' | 'event';
+}
+
+// Boundary kinds: a transaction or savepoint owned by the call, or a joined call
+export type TransactionSpanKind = 'TRANSACTION' | 'SAVEPOINT' | 'JOIN';
+
+export interface TransactionSpanDetails {
+  dataSource: DataSource;
+  className?: string;
+  methodName: string;
+  propagation: Propagation;
+  isolation?: IsolationLevel;
+  readOnly: boolean;
+}
+
+const SPAN_STATUS_OK = 1;
+const SPAN_STATUS_ERROR = 2;
+
+let tracing:
+  | { tracer: TransactionTracer; options: TransactionTracingOptions }
+  | undefined;
+
+/**
+ * Enables tracing of transactional boundaries, or disables it when called without a tracer
+ */
+export function setTransactionTracer(
+  tracer?: TransactionTracer,
+  options: TransactionTracingOptions = {},
+): void {
+  tracing = tracer ? { tracer, options } : undefined;
+}
+
+function getSpanAttributes(
+  kind: TransactionSpanKind,
+  details: TransactionSpanDetails,
+): SpanAttributes {
+  const { dataSource } = details;
+  const attributes: SpanAttributes = {
+    'db.system': dataSource.options.type,
+    'code.function': details.methodName,
+    'transaction.kind': kind,
+    'transaction.propagation': details.propagation,
+    'transaction.read_only': details.readOnly,
+  };
+
+  const dataSourceName = getRegisteredDataSourceName(dataSource);
+  if (dataSourceName) {
+    attributes['transaction.data_source'] = dataSourceName;
+  }
+  if (typeof dataSource.options.database === 'string') {
+    attributes['db.name'] = dataSource.options.database;
+  }
+  if (details.className) {
+    attributes['code.namespace'] = details.className;
+  }
+  if (details.isolation) {
+    attributes['transaction.isolation'] = details.isolation;
+  }
+  return attributes;
+}
+
+/**
+ * Runs `run` inside a span for the boundary when tracing is enabled.
+ * Joined calls become events on `parentSpan` when `joinedCalls` is 'event'.
+ */
+export async function withTransactionSpan<T>(
+  kind: TransactionSpanKind,
+  details: TransactionSpanDetails,
+  parentSpan: TransactionSpan | undefined,
+  run: (span: TransactionSpan | undefined) => Promise<T>,
+): Promise<T> {
+  if (!tracing) {
+    return await run(undefined);
+  }
+
+  const attributes = getSpanAttributes(kind, details);
+  if (kind === 'JOIN' && tracing.options.joinedCalls === 'event') {
+    parentSpan?.addEvent('transaction.join', attributes);
+    return await run(parentSpan);
+  }
+
+  const name = details.className
+    ? `${details.className}.${details.methodName}`
+    : details.methodName;
+
+  return await tracing.tracer.startActiveSpan(
+    `${kind.toLowerCase()} ${name}`,
+    { attributes },
+    async (span) => {
+      try {
+        const result = await run(span);
+        span.setStatus({ code: SPAN_STATUS_OK });
+        return result;
+      } catch (error) {
+        span.recordException(error instanceof Error ? error : String(error));
+        span.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  );
+}
+
+export function setTransactionOutcome(
+  span: TransactionSpan | undefined,
+  outcome: TransactionCompletionStatus,
+): void {
+  span?.setAttribute('transaction.outcome', outcome);
+}
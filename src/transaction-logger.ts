@@ -0,0 +1,134 @@
+import type {
+  TransactionEvent,
+  TransactionEventType,
+  TransactionObserver,
+} from './observers';
+
+// Matches console as well as framework loggers such as Nest's Logger
+export interface TransactionLogSink {
+  debug(message: unknown): void;
+  warn(message: unknown): void;
+  error(message: unknown): void;
+}
+
+export interface TransactionLoggerOptions {
+  // Defaults to console
+  logger?: TransactionLogSink;
+  // Log plain objects for JSON log pipelines instead of text lines
+  structured?: boolean;
+  // Event types to log (default: all)
+  events?: TransactionEventType[];
+}
+
+/**
+ * Observer that logs every transaction event.
+ * Rollbacks and isolation changes are logged as warnings and errors as errors, everything else at debug level.
+ */
+export class TransactionLogger implements TransactionObserver {
+  private readonly logger: TransactionLogSink;
+
+  constructor(private readonly options: TransactionLoggerOptions = {}) {
+    this.logger = options.logger ?? console;
+  }
+
+  onBegin(event: TransactionEvent): void {
+    this.log(event);
+  }
+
+  onJoin(event: TransactionEvent): void {
+    this.log(event);
+  }
+
+  onSavepoint(event: TransactionEvent): void {
+    this.log(event);
+  }
+
+  onCommit(event: TransactionEvent): void {
+    this.log(event);
+  }
+
+  onRollback(event: TransactionEvent): void {
+    this.log(event);
+  }
+
+  onError(event: TransactionEvent): void {
+    this.log(event);
+  }
+
+  onIsolationChanged(event: TransactionEvent): void {
+    this.log(event);
+  }
+
+  private log(event: TransactionEvent): void {
+    if (this.options.events && !this.options.events.includes(event.type)) {
+      return;
+    }
+
+    const entry = this.options.structured
+      ? this.toRecord(event)
+      : this.toMessage(event);
+
+    if (event.type === 'ERROR') {
+      this.logger.error(entry);
+    } else if (
+      event.type === 'ROLLBACK' ||
+      event.type === 'ISOLATION_CHANGED'
+    ) {
+      this.logger.warn(entry);
+    } else {
+      this.logger.debug(entry);
+    }
+  }
+
+  private toRecord(event: TransactionEvent): Record<string, unknown> {
+    return {
+      event: event.type,
+      transaction: this.getName(event),
+      propagation: event.propagation,
+      isolation: event.isolation,
+      effectiveIsolation: event.effectiveIsolation,
+      readOnly: event.readOnly,
+      depth: event.depth,
+      attempt: event.attempt,
+      durationMs: event.duration,
+      error: event.error === undefined ? undefined : this.describe(event.error),
+    };
+  }
+
+  private toMessage(event: TransactionEvent): string {
+    const details = [event.propagation, `depth ${event.depth}`];
+    if (event.isolation) {
+      details.push(event.isolation);
+    }
+    if (event.readOnly) {
+      details.push('read-only');
+    }
+    if (event.attempt !== undefined && event.attempt > 1) {
+      details.push(`attempt ${event.attempt}`);
+    }
+
+    let message = `[transaction] ${event.type} ${this.getName(event)} (${details.join(', ')})`;
+    if (event.type === 'ISOLATION_CHANGED') {
+      message += ` runs at ${event.effectiveIsolation ?? 'the database default'}`;
+    }
+    if (event.duration !== undefined) {
+      message += ` after ${event.duration}ms`;
+    }
+    if (event.error !== undefined) {
+      message += `: ${this.describe(event.error)}`;
+    }
+    return message;
+  }
+
+  private getName(event: TransactionEvent): string {
+    return event.className
+      ? `${event.className}.${event.methodName}`
+      : event.methodName;
+  }
+
+  private describe(error: unknown): string {
+    return error instanceof Error
+      ? `${error.name}: ${error.message}`
+      : String(error);
+  }
+}
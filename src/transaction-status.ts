@@ -0,0 +1,93 @@
+import { randomUUID } from 'node:crypto';
+import type { DataSource } from 'typeorm';
+import { getOrCreateTransactionContext } from './context';
+import { UnexpectedRollbackError } from './errors';
+import type { IsolationLevel, Propagation } from './run-in-transaction';
+
+// Shared by every boundary that runs in the same transaction or savepoint
+export interface TransactionState {
+  id: string;
+  isolation?: IsolationLevel;
+  rollbackOnly: boolean;
+  // Set when a boundary other than the owner marked the transaction rollback-only
+  rollbackOnlyByParticipant: boolean;
+}
+
+// Savepoints pass the id of their transaction
+export function createTransactionState(
+  isolation?: IsolationLevel,
+  id: string = randomUUID(),
+): TransactionState {
+  return {
+    id,
+    isolation,
+    rollbackOnly: false,
+    rollbackOnlyByParticipant: false,
+  };
+}
+
+/**
+ * View of the current transaction from one transactional boundary
+ */
+export class TransactionStatus {
+  constructor(
+    private readonly state: TransactionState,
+    // True for the boundary that started the transaction, false for joined calls and savepoints
+    readonly isNewTransaction: boolean,
+    // True for the boundary that created the savepoint, which decides on its rollback
+    private readonly ownsSavepoint: boolean,
+    readonly propagation: Propagation,
+    readonly depth: number,
+    readonly readOnly: boolean,
+  ) {}
+
+  get transactionId(): string {
+    return this.state.id;
+  }
+
+  get isolation(): IsolationLevel | undefined {
+    return this.state.isolation;
+  }
+
+  get isRollbackOnly(): boolean {
+    return this.state.rollbackOnly;
+  }
+
+  /**
+   * Makes the boundary that owns the transaction (or savepoint) roll back instead of committing.
+   * Marked by a participant, the owner also throws UnexpectedRollbackError by default.
+   */
+  setRollbackOnly(): void {
+    this.state.rollbackOnly = true;
+    if (!this.isNewTransaction && !this.ownsSavepoint) {
+      this.state.rollbackOnlyByParticipant = true;
+    }
+  }
+}
+
+/**
+ * Returns the status of the innermost transactional boundary, or null outside a transaction
+ */
+export function getCurrentTransactionStatus(
+  dataSource: DataSource,
+): TransactionStatus | null {
+  return getOrCreateTransactionContext(dataSource).getStore()?.status ?? null;
+}
+
+/**
+ * Error for the caller of a boundary that rolled back because of a participant's mark,
+ * undefined when the owning boundary marked the transaction itself
+ */
+export function createUnexpectedRollbackError(
+  state: TransactionState,
+  name: string,
+  throwOnUnexpectedRollback = true,
+): UnexpectedRollbackError | undefined {
+  if (!state.rollbackOnlyByParticipant || !throwOnUnexpectedRollback) {
+    return undefined;
+  }
+  return new UnexpectedRollbackError(
+    `Transaction of ${name} was rolled back because a participant marked it rollback-only.`,
+    state.id,
+  );
+}
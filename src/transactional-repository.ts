@@ -0,0 +1,124 @@
+import {
+  type DataSource,
+  type EntityManager,
+  type EntityTarget,
+  type ObjectLiteral,
+  Repository,
+} from 'typeorm';
+import { getCurrentTransactionManager } from './context';
+
+// Proxies per DataSource and entity, so every caller shares the same instance
+const repositories = new WeakMap<
+  DataSource,
+  Map<EntityTarget<ObjectLiteral>, unknown>
+>();
+
+// Custom repository instances bound to each transaction's manager, per definition
+const customRepositories = new WeakMap<
+  object,
+  WeakMap<EntityManager, unknown>
+>();
+
+// Repository whose calls go to the repository `resolve` returns at call time
+function createRepositoryProxy<R extends object>(
+  prototype: object,
+  resolve: () => R,
+): R {
+  // The target only provides the prototype, so `instanceof` still holds
+  return new Proxy(Object.create(prototype) as R, {
+    get(_target, property) {
+      const repository: object = resolve();
+      const value = Reflect.get(repository, property, repository);
+      if (typeof value !== 'function') {
+        return value;
+      }
+      // Resolved again on call, so a method taken outside a transaction still follows it
+      // biome-ignore lint/suspicious/noExplicitAny: Repository method arguments are generic
+      return (...args: any[]) => {
+        const current: object = resolve();
+        return Reflect.apply(
+          Reflect.get(current, property, current),
+          current,
+          args,
+        );
+      };
+    },
+    has(_target, property) {
+      return Reflect.has(resolve(), property);
+    },
+  });
+}
+
+function createTransactionalRepository<T extends ObjectLiteral>(
+  dataSource: DataSource,
+  entity: EntityTarget<T>,
+): Repository<T> {
+  return createRepositoryProxy(Repository.prototype, () =>
+    (
+      getCurrentTransactionManager(dataSource) ?? dataSource.manager
+    ).getRepository(entity),
+  );
+}
+
+/**
+ * Returns a custom repository (from Repository.extend() or a Repository subclass) bound to the
+ * active transaction of its DataSource, with its custom methods. One instance is kept per transaction.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: Repository is invariant in its entity type
+export function getCustomRepository<R extends Repository<any>>(
+  repository: R,
+): R {
+  const manager = getCurrentTransactionManager(repository.manager.connection);
+  if (!manager || manager === repository.manager) {
+    return repository;
+  }
+
+  let byManager = customRepositories.get(repository);
+  if (!byManager) {
+    byManager = new WeakMap();
+    customRepositories.set(repository, byManager);
+  }
+
+  let bound = byManager.get(manager) as R | undefined;
+  if (!bound) {
+    // Subclasses must keep Repository's (target, manager, queryRunner) constructor
+    bound = manager.withRepository(repository);
+    byManager.set(manager, bound);
+  }
+  return bound;
+}
+
+/**
+ * Registers a custom repository and returns a stable instance that runs every call on
+ * the transaction active at call time, like getTransactionalRepository
+ */
+export function defineTransactionalRepository<
+  // biome-ignore lint/suspicious/noExplicitAny: Repository is invariant in its entity type
+  R extends Repository<any>,
+>(repository: R): R {
+  return createRepositoryProxy(Object.getPrototypeOf(repository), () =>
+    getCustomRepository(repository),
+  );
+}
+
+/**
+ * Returns a repository that runs every call on the transaction active at call time,
+ * or on the default manager outside a transaction. Safe to keep in a field or inject once.
+ */
+export function getTransactionalRepository<T extends ObjectLiteral>(
+  dataSource: DataSource,
+  entity: EntityTarget<T>,
+): Repository<T> {
+  let byEntity = repositories.get(dataSource);
+  if (!byEntity) {
+    byEntity = new Map();
+    repositories.set(dataSource, byEntity);
+  }
+
+  let repository = byEntity.get(entity) as Repository<T> | undefined;
+  if (!repository) {
+    repository = createTransactionalRepository(dataSource, entity);
+    byEntity.set(entity, repository);
+  }
+  return repository;
+}